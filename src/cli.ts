@@ -0,0 +1,476 @@
+/**
+ * Command-line runner for eval cases.
+ *
+ * Discovers YAML eval cases, filters them, and runs, lists, validates or
+ * lints them. Runs are linted first, so broken cases fail before any tokens
+ * are spent.
+ *
+ * Usage:
+ *   node dist/cli.js run [options]       Run the evaluation for matched cases
+ *   node dist/cli.js list [options]      Print matched cases
+ *   node dist/cli.js validate [options]  Schema-check YAML files only
+ *   node dist/cli.js lint [options]      Check YAML files for broken or contradictory cases
+ *
+ * Run with --help for the full list of options.
+ */
+
+import { existsSync, statSync } from "fs";
+import { resolve } from "path";
+import { parseArgs } from "util";
+import { listApproaches, loadsSkills, resolveApproaches } from "./harness/approaches.js";
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate, listPromptTemplates } from "./harness/prompt-templates.js";
+import { createLocalReporter, resolveReporters, type Reporter } from "./reporters/index.js";
+import {
+  selectEvalCases,
+  findEvalCaseFiles,
+  loadEvalCasesFromDirectory,
+  loadEvalCasesFromFile,
+} from "./utils/loadEvalCases.js";
+import { formatLintIssue, lintEvalCaseFiles, type LintIssue } from "./utils/lint-eval-cases.js";
+import { resolveSkillBaseDir } from "./utils/read-skill-file.js";
+import { parseCacheMode, type GenerationCacheMode } from "./utils/generation-cache.js";
+import { loadModelPrices } from "./utils/generation-usage.js";
+import { createFixtureClient, loadFixturesFromFile } from "./clients/index.js";
+import type { Approach } from "./harness/types.js";
+import type { EvalCase } from "./schemas/evalCase.js";
+
+const DEFAULT_CASES_PATH = "evalCases";
+const DEFAULT_PROJECT_NAME = "Code Gen Experiment";
+
+const USAGE = `Usage: node dist/cli.js <run|list|validate|lint> [options]
+
+Commands:
+  run         Run the evaluation for matched cases
+  list        Print matched cases
+  validate    Schema-check YAML files without running anything
+  lint        Check YAML files for missing skill files, duplicate names and contradictory cases
+
+Options:
+  --cases <path>            YAML file or directory to load (default: ${DEFAULT_CASES_PATH})
+  --tags <expr>             Only cases whose tags match, e.g. "index and not slow" (a,b means ANY)
+  --name <pattern>          Only cases whose name matches the glob or /regex/ (repeatable)
+  --exclude-name <pattern>  Leave out cases whose name matches the glob or /regex/ (repeatable)
+  --file <pattern>          Only cases loaded from YAML files matching the glob or /regex/ (repeatable)
+  --approach <name>         Approach to run (repeatable or comma-separated)
+  --model <model>           Generation model (repeatable or comma-separated; default: GENERATION_MODEL)
+  --samples <n>             Completions per case and approach (default: 1)
+  --prompt-template <name>  Prompt template for cases that don't select one (default: ${DEFAULT_PROMPT_TEMPLATE})
+  --prompt-var <k=v>        Prompt template variable (repeatable)
+  --concurrency <n>         Rows to run concurrently; > 1 isolates databases per row (default: 1)
+  --isolate                 Isolate databases per row even without concurrency
+  --reporter <name>         Reporter to use: braintrust, local (repeatable or comma-separated; default: braintrust)
+  --report-dir <path>       Output directory for the local reporter (default: reports)
+  --cache <mode>            Generation cache: off, record, replay (default: GENERATION_CACHE or off)
+  --cache-dir <path>        Directory for recorded generations (default: .cache/generations)
+  --prices <path>           JSON price table (USD per million tokens) merged over the built-in prices
+  --fixtures <path>         Answer from a YAML fixture file instead of calling a model
+  --max-retries <n>         Retries for transient LLM errors such as 429 and 5xx (default: 3)
+  --rpm <n>                 Maximum LLM requests per minute, including retries (default: unlimited)
+  --run-id <id>             ID for this run's progress state (default: generated from the start time)
+  --resume <id>             Resume an interrupted run, skipping the rows it already scored
+  --skills-root <path>      Resolve relative skill paths against this directory (default: each YAML file's directory)
+  --strict-skills           Fail a row as an infrastructure error when a skill file can't be read
+  --project <name>          Braintrust project name (default: "${DEFAULT_PROJECT_NAME}")
+  --skip-lint               Run even if linting finds errors
+  --min-score <n>           Exit with status 1 if any experiment's mean score is below n (0 to 1)
+  --check-links             lint: fetch each docLink and flag the ones that fail
+  --offline                 lint: flag docLinks that can't be fetched without network access
+  --help                    Show this help`;
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface CliOptions {
+  command: string | undefined;
+  casesPath: string;
+  tags?: string;
+  names: string[];
+  excludeNames: string[];
+  files: string[];
+  approaches: string[];
+  models: string[];
+  samples?: number;
+  promptTemplate?: string;
+  promptVariables: Record<string, string>;
+  concurrency?: number;
+  isolate: boolean;
+  reporters: string[];
+  reportDir?: string;
+  cacheMode?: GenerationCacheMode;
+  cacheDir?: string;
+  pricesPath?: string;
+  fixturesPath?: string;
+  maxRetries?: number;
+  requestsPerMinute?: number;
+  runId?: string;
+  resume: boolean;
+  skillsRoot?: string;
+  strictSkills: boolean;
+  project: string;
+  skipLint: boolean;
+  minScore?: number;
+  checkLinks: boolean;
+  offline: boolean;
+  help: boolean;
+}
+
+/**
+ * Split repeatable, comma-separated option values into a flat list.
+ */
+function splitList(values: string[] | undefined): string[] {
+  return (values ?? [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cases: { type: "string" },
+      tags: { type: "string", multiple: true },
+      name: { type: "string", multiple: true },
+      "exclude-name": { type: "string", multiple: true },
+      file: { type: "string", multiple: true },
+      approach: { type: "string", multiple: true },
+      model: { type: "string", multiple: true },
+      samples: { type: "string" },
+      "prompt-template": { type: "string" },
+      "prompt-var": { type: "string", multiple: true },
+      concurrency: { type: "string" },
+      isolate: { type: "boolean" },
+      reporter: { type: "string", multiple: true },
+      "report-dir": { type: "string" },
+      cache: { type: "string" },
+      "cache-dir": { type: "string" },
+      prices: { type: "string" },
+      fixtures: { type: "string" },
+      "max-retries": { type: "string" },
+      rpm: { type: "string" },
+      "run-id": { type: "string" },
+      resume: { type: "string" },
+      "skills-root": { type: "string" },
+      "strict-skills": { type: "boolean" },
+      project: { type: "string" },
+      "skip-lint": { type: "boolean" },
+      "min-score": { type: "string" },
+      "check-links": { type: "boolean" },
+      offline: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const samples = values.samples !== undefined ? Number(values.samples) : undefined;
+  if (samples !== undefined && (!Number.isInteger(samples) || samples < 1)) {
+    throw new Error(`--samples must be a positive integer, got "${values.samples}"`);
+  }
+
+  const promptVariables: Record<string, string> = {};
+  for (const assignment of values["prompt-var"] ?? []) {
+    const separator = assignment.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`--prompt-var must be key=value, got "${assignment}"`);
+    }
+    promptVariables[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+
+  const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new Error(`--concurrency must be a positive integer, got "${values.concurrency}"`);
+  }
+
+  const maxRetries = values["max-retries"] !== undefined ? Number(values["max-retries"]) : undefined;
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+    throw new Error(`--max-retries must be a non-negative integer, got "${values["max-retries"]}"`);
+  }
+
+  const requestsPerMinute = values.rpm !== undefined ? Number(values.rpm) : undefined;
+  if (requestsPerMinute !== undefined && !(requestsPerMinute > 0)) {
+    throw new Error(`--rpm must be a positive number, got "${values.rpm}"`);
+  }
+
+  const minScore = values["min-score"] !== undefined ? Number(values["min-score"]) : undefined;
+  if (minScore !== undefined && !(minScore >= 0 && minScore <= 1)) {
+    throw new Error(`--min-score must be a number from 0 to 1, got "${values["min-score"]}"`);
+  }
+
+  if (values["run-id"] !== undefined && values.resume !== undefined) {
+    throw new Error("Use either --run-id or --resume, not both");
+  }
+
+  return {
+    command: positionals[0],
+    casesPath: values.cases ?? DEFAULT_CASES_PATH,
+    // Repeated --tags expressions match cases that satisfy ANY of them
+    tags: values.tags && values.tags.length > 1
+      ? values.tags.map((expression) => `(${expression})`).join(" or ")
+      : values.tags?.[0],
+    names: values.name ?? [],
+    excludeNames: values["exclude-name"] ?? [],
+    files: values.file ?? [],
+    approaches: splitList(values.approach),
+    models: splitList(values.model),
+    samples,
+    promptTemplate: values["prompt-template"],
+    promptVariables,
+    concurrency,
+    isolate: values.isolate ?? false,
+    reporters: splitList(values.reporter),
+    reportDir: values["report-dir"],
+    cacheMode: values.cache !== undefined ? parseCacheMode(values.cache) : undefined,
+    cacheDir: values["cache-dir"],
+    pricesPath: values.prices,
+    fixturesPath: values.fixtures,
+    maxRetries,
+    requestsPerMinute,
+    runId: values.resume ?? values["run-id"],
+    resume: values.resume !== undefined,
+    skillsRoot: values["skills-root"],
+    strictSkills: values["strict-skills"] ?? false,
+    project: values.project ?? DEFAULT_PROJECT_NAME,
+    skipLint: values["skip-lint"] ?? false,
+    minScore,
+    checkLinks: values["check-links"] ?? false,
+    offline: values.offline ?? false,
+    help: values.help ?? false,
+  };
+}
+
+// =============================================================================
+// CASE SELECTION
+// =============================================================================
+
+/**
+ * YAML files under --cases (a single file or a directory).
+ */
+function caseFiles(casesPath: string): string[] {
+  return statSync(casesPath).isDirectory() ? findEvalCaseFiles(casesPath) : [casesPath];
+}
+
+/**
+ * Load eval cases from a YAML file or directory.
+ */
+function loadCases(casesPath: string): EvalCase[] {
+  return statSync(casesPath).isDirectory()
+    ? loadEvalCasesFromDirectory(casesPath)
+    : loadEvalCasesFromFile(casesPath);
+}
+
+/**
+ * Load eval cases and apply tag, name and file filters.
+ */
+function selectCases(options: CliOptions): EvalCase[] {
+  return selectEvalCases(loadCases(options.casesPath), {
+    tags: options.tags,
+    names: options.names,
+    excludeNames: options.excludeNames,
+    files: options.files,
+  });
+}
+
+/**
+ * Resolve --reporter names, pointing the local reporter at --report-dir.
+ */
+/**
+ * The default approaches, without the ones that load skills when a selected
+ * case's skill files are missing (e.g. SKILLS_DIR isn't set).
+ */
+function defaultApproaches(evalCases: EvalCase[], skillsRoot: string | undefined): Approach[] {
+  const approaches = resolveApproaches();
+  const missing = [...new Set(evalCases.flatMap(({ input: { skillFiles }, sourceFile }) => {
+    const baseDir = resolveSkillBaseDir(sourceFile, skillsRoot);
+    const paths = skillFiles === undefined ? [] : Array.isArray(skillFiles) ? skillFiles : [skillFiles];
+    return paths.map((path) => resolve(baseDir, path)).filter((path) => !existsSync(path));
+  }))];
+  if (missing.length === 0) return approaches;
+
+  const skipped = approaches.filter(loadsSkills).map(({ name }) => name);
+  console.warn(
+    `Skipping ${skipped.join(", ")}: skill file not found: ${missing[0]}` +
+      `${missing.length > 1 ? ` (and ${missing.length - 1} more)` : ""}. ` +
+      "Set SKILLS_DIR or --skills-root, or pass --approach to run them anyway."
+  );
+  return approaches.filter((approach) => !loadsSkills(approach));
+}
+
+function resolveCliReporters(options: CliOptions): Reporter[] {
+  return resolveReporters(
+    options.reporters.map((name) =>
+      name === "local" && options.reportDir ? createLocalReporter({ outputDir: options.reportDir }) : name
+    )
+  );
+}
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+async function runCommand(options: CliOptions): Promise<number> {
+  const evalCases = selectCases(options);
+  if (evalCases.length === 0) {
+    console.error("No eval cases matched the given filters.");
+    return 1;
+  }
+
+  // Resolve approaches and templates up front so an unknown name fails before any cleanup runs
+  const approaches = options.approaches.length > 0
+    ? resolveApproaches(options.approaches)
+    : defaultApproaches(evalCases, options.skillsRoot);
+  if (options.promptTemplate) getPromptTemplate(options.promptTemplate);
+
+  console.log(`Loaded ${evalCases.length} eval case(s)`);
+
+  if (!options.skipLint) {
+    // Only issues about the selected cases (or whole files) stop the run
+    const selected = new Set(evalCases.map((evalCase) => evalCase.name));
+    const issues = (await lintEvalCaseFiles(caseFiles(options.casesPath), {
+      skillsRoot: options.skillsRoot,
+      approaches,
+    })).filter((issue) => issue.caseName === undefined || selected.has(issue.caseName));
+    if (printLintIssues(issues) > 0) {
+      console.error("\nLinting found errors. Fix them, or pass --skip-lint to run anyway.");
+      return 1;
+    }
+  }
+
+  // Imported lazily so list/validate work without LLM credentials
+  const { runEvaluation } = await import("./harness/index.js");
+  const summaries = await runEvaluation({
+    projectName: options.project,
+    evalCases,
+    approaches,
+    generationModels: options.models.length > 0 ? options.models : undefined,
+    samples: options.samples,
+    promptTemplate: options.promptTemplate,
+    promptVariables: Object.keys(options.promptVariables).length > 0 ? options.promptVariables : undefined,
+    concurrency: options.concurrency,
+    isolateDatabases: options.isolate || undefined,
+    reporters: options.reporters.length > 0 ? resolveCliReporters(options) : undefined,
+    cache: { mode: options.cacheMode, dir: options.cacheDir },
+    prices: options.pricesPath ? loadModelPrices(options.pricesPath) : undefined,
+    generationClient: options.fixturesPath
+      ? createFixtureClient({ fixtures: loadFixturesFromFile(options.fixturesPath) })
+      : undefined,
+    retry: { maxRetries: options.maxRetries, requestsPerMinute: options.requestsPerMinute },
+    runState: { id: options.runId, resume: options.resume },
+    skills: { root: options.skillsRoot, strict: options.strictSkills },
+  });
+
+  const { minScore } = options;
+  if (minScore === undefined) return 0;
+  const failing = summaries.filter(({ stats }) => stats.meanScore < minScore);
+  for (const { experimentName, stats } of failing) {
+    console.error(`${experimentName}: mean score ${stats.meanScore.toFixed(2)} is below --min-score ${minScore}`);
+  }
+  return failing.length > 0 ? 1 : 0;
+}
+
+function listCommand(options: CliOptions): number {
+  const evalCases = selectCases(options);
+
+  for (const evalCase of evalCases) {
+    const tags = evalCase.tags?.length ? ` [${evalCase.tags.join(", ")}]` : "";
+    console.log(`- ${evalCase.name}${tags}`);
+  }
+  console.log(`\n${evalCases.length} eval case(s) matched`);
+
+  console.log("\nAvailable approaches:");
+  for (const approach of listApproaches()) {
+    const description = approach.description ? ` - ${approach.description}` : "";
+    console.log(`- ${approach.name}${description}`);
+  }
+
+  console.log("\nAvailable prompt templates:");
+  for (const template of listPromptTemplates()) {
+    const description = template.description ? ` - ${template.description}` : "";
+    console.log(`- ${template.name}${description}`);
+  }
+  return 0;
+}
+
+function validateCommand(options: CliOptions): number {
+  const files = caseFiles(options.casesPath);
+
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const cases = loadEvalCasesFromFile(file);
+      for (const evalCase of cases) {
+        if (evalCase.input.promptTemplate) getPromptTemplate(evalCase.input.promptTemplate);
+      }
+      console.log(`OK    ${file} (${cases.length} case(s))`);
+    } catch (error) {
+      failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`FAIL  ${file}\n${message}`);
+    }
+  }
+
+  console.log(`\nValidated ${files.length} file(s), ${failures} failed`);
+  return failures > 0 ? 1 : 0;
+}
+
+async function lintCommand(options: CliOptions): Promise<number> {
+  const files = caseFiles(options.casesPath);
+  const issues = await lintEvalCaseFiles(files, {
+    checkDocLinks: options.checkLinks,
+    offline: options.offline,
+    skillsRoot: options.skillsRoot,
+    approaches: options.approaches.length > 0 ? resolveApproaches(options.approaches) : undefined,
+  });
+  const errors = printLintIssues(issues);
+
+  console.log(`\nLinted ${files.length} file(s): ${errors} error(s), ${issues.length - errors} warning(s)`);
+  return errors > 0 ? 1 : 0;
+}
+
+/**
+ * Print lint issues (errors to stderr).
+ *
+ * @returns The number of errors
+ */
+function printLintIssues(issues: LintIssue[]): number {
+  for (const issue of issues) {
+    (issue.severity === "error" ? console.error : console.warn)(formatLintIssue(issue));
+  }
+  return issues.filter((issue) => issue.severity === "error").length;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseCliArgs(argv);
+
+  if (options.help || !options.command) {
+    console.log(USAGE);
+    return options.help ? 0 : 1;
+  }
+
+  switch (options.command) {
+    case "run":
+      return runCommand(options);
+    case "list":
+      return listCommand(options);
+    case "validate":
+      return validateCommand(options);
+    case "lint":
+      return lintCommand(options);
+    default:
+      console.error(`Unknown command "${options.command}"\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
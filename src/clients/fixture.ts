@@ -0,0 +1,166 @@
+/**
+ * Fixture client.
+ *
+ * Returns canned code instead of calling a model, so the harness (loaders,
+ * cache, execution, scoring, cleanup and reporters) can run end to end
+ * without network access. Fixtures map eval cases and approaches to either
+ * inline code (e.g., known-bad snippets) or a function from
+ * src/examples/reference-implementations.ts.
+ *
+ * Fixture file format (YAML):
+ * ```yaml
+ * - case: Create search index with dynamic mapping
+ *   approach: with-skill
+ *   reference: createBasicSearchIndex
+ * - case: "*"
+ *   code: |
+ *     console.log("not a search index");
+ * ```
+ * The first fixture whose case, approach, sample, turn and attempt all match is used.
+ */
+
+import { readFileSync } from "fs";
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import * as referenceImplementations from "../examples/reference-implementations.js";
+import { globToRegExp } from "../utils/loadEvalCases.js";
+import type { CompletionContext, LLMClient } from "./types.js";
+
+// =============================================================================
+// FIXTURE SCHEMA
+// =============================================================================
+
+const FixtureSchema = z
+  .object({
+    /** Eval case name glob (default: any case) */
+    case: z.string().optional(),
+    /** Approach name glob (default: any approach) */
+    approach: z.string().optional(),
+    /** Only this sample index */
+    sample: z.number().int().nonnegative().optional(),
+    /** Only this attempt (1 = first generation, 2+ = self-repair rounds) */
+    attempt: z.number().int().positive().optional(),
+    /** Only this turn of a multi-turn case (1 = first user turn) */
+    turn: z.number().int().positive().optional(),
+    /** Code to return */
+    code: z.string().optional(),
+    /** Name of a function in src/examples/reference-implementations.ts to return */
+    reference: z.string().optional(),
+  })
+  .refine((fixture) => (fixture.code === undefined) !== (fixture.reference === undefined), {
+    message: "Exactly one of code or reference is required",
+  });
+
+const FixturesSchema = z.array(FixtureSchema);
+
+export type Fixture = z.infer<typeof FixtureSchema>;
+
+// =============================================================================
+// REFERENCE IMPLEMENTATIONS
+// =============================================================================
+
+/**
+ * Turn a function into a standalone script that defines and calls it.
+ */
+export function functionToScript(fn: (...args: never[]) => unknown): string {
+  return `${fn.toString()}\n\n${fn.name}();`;
+}
+
+/**
+ * Get a reference implementation as executable code.
+ *
+ * @throws Error if there is no reference implementation with that name
+ */
+export function getReferenceImplementationCode(name: string): string {
+  const fn = (referenceImplementations as Record<string, unknown>)[name];
+  if (typeof fn !== "function") {
+    const available = Object.keys(referenceImplementations).join(", ");
+    throw new Error(`Unknown reference implementation "${name}". Available: ${available}`);
+  }
+  return functionToScript(fn as () => unknown);
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+export interface FixtureClientOptions {
+  /** Fixtures, in priority order */
+  fixtures: Fixture[];
+  /** Code returned when no fixture matches (default: throw) */
+  fallback?: string;
+}
+
+/**
+ * Load and validate fixtures from a YAML file.
+ *
+ * @throws Error if the file cannot be read or validation fails
+ */
+export function loadFixturesFromFile(filePath: string): Fixture[] {
+  const content = readFileSync(filePath, "utf-8");
+  const result = FixturesSchema.safeParse(parseYaml(content));
+
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((e) => `  - ${String(e.path.join("."))}: ${e.message}`)
+      .join("\n");
+    throw new Error(`Invalid fixture file ${filePath}:\n${errors}`);
+  }
+
+  return result.data;
+}
+
+function matches(fixture: Fixture, context: CompletionContext): boolean {
+  if (fixture.case !== undefined && !globToRegExp(fixture.case).test(context.caseName ?? "")) return false;
+  if (fixture.approach !== undefined && !globToRegExp(fixture.approach).test(context.approach ?? "")) return false;
+  if (fixture.sample !== undefined && fixture.sample !== context.sampleIndex) return false;
+  if (fixture.attempt !== undefined && fixture.attempt !== (context.attempt ?? 1)) return false;
+  if (fixture.turn !== undefined && fixture.turn !== (context.turn ?? 1)) return false;
+  return true;
+}
+
+/**
+ * Create a client that answers from fixtures instead of a model.
+ *
+ * Completions report no token usage, so their cost is unknown rather than
+ * made up.
+ */
+export function createFixtureClient(options: FixtureClientOptions): LLMClient {
+  const { fixtures, fallback } = options;
+
+  return {
+    name: "fixtures",
+    async createChatCompletion(request, context = {}): Promise<ChatCompletion> {
+      const fixture = fixtures.find((f) => matches(f, context));
+
+      let code: string;
+      if (fixture) {
+        code = fixture.reference !== undefined
+          ? getReferenceImplementationCode(fixture.reference)
+          : fixture.code ?? "";
+      } else if (fallback !== undefined) {
+        code = fallback;
+      } else {
+        throw new Error(
+          `[Fixtures] No fixture for case "${context.caseName}" and approach "${context.approach}"`
+        );
+      }
+
+      return {
+        id: `fixture-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: request.model,
+        choices: [
+          {
+            index: 0,
+            finish_reason: "stop",
+            logprobs: null,
+            message: { role: "assistant", content: code, refusal: null },
+          },
+        ],
+      };
+    },
+  };
+}
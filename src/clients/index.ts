@@ -0,0 +1,24 @@
+/**
+ * LLM clients index - exports all clients and utilities.
+ */
+
+// Types
+export type { LLMClient, CompletionContext } from "./types.js";
+
+export { createProxyClient, BRAINTRUST_PROXY_URL, type ProxyClientOptions } from "./proxy.js";
+export {
+  withRetries,
+  createRateLimiter,
+  isRetryableError,
+  LLMCallError,
+  DEFAULT_RETRY_OPTIONS,
+  type RetryOptions,
+} from "./retry.js";
+export {
+  createFixtureClient,
+  loadFixturesFromFile,
+  getReferenceImplementationCode,
+  functionToScript,
+  type Fixture,
+  type FixtureClientOptions,
+} from "./fixture.js";
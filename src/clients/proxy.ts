@@ -0,0 +1,45 @@
+/**
+ * Braintrust AI proxy client.
+ *
+ * Uses the OpenAI SDK against the Braintrust AI proxy, which routes requests
+ * to the provider for each model. The OpenAI client is created on first use,
+ * so importing the harness doesn't require an API key.
+ *
+ * The OpenAI SDK's own retries are turned off; wrap the client with
+ * withRetries() (as the harness does) for retries and rate limiting.
+ */
+
+import OpenAI from "openai";
+import type { LLMClient } from "./types.js";
+
+/** Braintrust AI proxy endpoint */
+export const BRAINTRUST_PROXY_URL = "https://api.braintrust.dev/v1/proxy";
+
+export interface ProxyClientOptions {
+  /** Proxy base URL (default: BRAINTRUST_PROXY_URL) */
+  baseURL?: string;
+  /**
+   * API key for AI proxy LLM access.
+   * Defaults to BRAINTRUST_AI_PROXY_KEY, falling back to BRAINTRUST_API_KEY.
+   */
+  apiKey?: string;
+}
+
+/**
+ * Create a client that sends completions through the Braintrust AI proxy.
+ */
+export function createProxyClient(options: ProxyClientOptions = {}): LLMClient {
+  let openai: OpenAI | null = null;
+
+  return {
+    name: "braintrust-proxy",
+    async createChatCompletion(request) {
+      openai ??= new OpenAI({
+        baseURL: options.baseURL ?? BRAINTRUST_PROXY_URL,
+        apiKey: options.apiKey ?? (process.env.BRAINTRUST_AI_PROXY_KEY || process.env.BRAINTRUST_API_KEY),
+        maxRetries: 0,
+      });
+      return openai.chat.completions.create(request);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import { createRateLimiter, isRetryableError, LLMCallError, withRetries } from "./retry.js";
+import type { LLMClient } from "./types.js";
+
+const REQUEST = { model: "gpt-4o", messages: [] };
+const COMPLETION = { id: "completion" } as ChatCompletion;
+
+/** An error like the OpenAI SDK's APIError */
+function statusError(status: number): Error {
+  return Object.assign(new Error(`${status} status code`), { status });
+}
+
+/** A client that fails with the given errors, then succeeds */
+function failingClient(errors: Error[]): LLMClient & { calls: number } {
+  return {
+    name: "test",
+    calls: 0,
+    async createChatCompletion() {
+      const error = errors[this.calls++];
+      if (error) throw error;
+      return COMPLETION;
+    },
+  };
+}
+
+describe("isRetryableError", () => {
+  it("retries rate limits, timeouts and server errors", () => {
+    for (const status of [408, 409, 429, 500, 503]) {
+      assert.equal(isRetryableError(statusError(status)), true, String(status));
+    }
+  });
+
+  it("doesn't retry client errors or plain errors", () => {
+    assert.equal(isRetryableError(statusError(400)), false);
+    assert.equal(isRetryableError(statusError(404)), false);
+    assert.equal(isRetryableError(new Error("No fixture")), false);
+  });
+});
+
+describe("withRetries", () => {
+  beforeEach(() => {
+    mock.restoreAll();
+    mock.method(console, "warn", () => {});
+  });
+
+  it("retries transient errors until the call succeeds", async () => {
+    const client = failingClient([statusError(429), statusError(503)]);
+    const response = await withRetries(client, { initialDelayMs: 1 }).createChatCompletion(REQUEST);
+    assert.equal(response, COMPLETION);
+    assert.equal(client.calls, 3);
+  });
+
+  it("throws LLMCallError when retries run out", async () => {
+    const client = failingClient([statusError(500), statusError(500), statusError(502)]);
+    await assert.rejects(
+      withRetries(client, { maxRetries: 2, initialDelayMs: 1 }).createChatCompletion(REQUEST),
+      (error: unknown) => error instanceof LLMCallError && error.attempts === 3 && error.status === 502
+    );
+    assert.equal(client.calls, 3);
+  });
+
+  it("rethrows other errors unchanged without retrying", async () => {
+    const original = statusError(400);
+    const client = failingClient([original]);
+    await assert.rejects(withRetries(client, { initialDelayMs: 1 }).createChatCompletion(REQUEST), (error) => error === original);
+    assert.equal(client.calls, 1);
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("spaces requests evenly", async () => {
+    // 1200 per minute = one request every 50ms
+    const waitForSlot = createRateLimiter(1200);
+    const start = Date.now();
+    await Promise.all([waitForSlot(), waitForSlot(), waitForSlot()]);
+    assert.ok(Date.now() - start >= 95, `took ${Date.now() - start}ms`);
+  });
+
+  it("doesn't delay the first request", async () => {
+    const waitForSlot = createRateLimiter(1);
+    const start = Date.now();
+    await waitForSlot();
+    assert.ok(Date.now() - start < 50);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Retry, backoff and rate limiting for LLM clients.
+ *
+ * withRetries() wraps any LLMClient so transient failures (rate limits,
+ * server errors, dropped connections) are retried with exponential backoff,
+ * and requests are spaced to stay under a requests-per-minute limit. A call
+ * that still fails after its retries throws an LLMCallError, which the
+ * harness records as an infrastructure error rather than a failed
+ * generation. Other errors (bad requests, unknown models, missing fixtures)
+ * are rethrown unchanged and fail the row.
+ */
+
+import { APIConnectionError } from "openai";
+import type { LLMClient } from "./types.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RetryOptions {
+  /** Retries after the first attempt for retryable errors (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles with each retry (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound for a single retry delay (default: 30000) */
+  maxDelayMs?: number;
+  /** Maximum requests started per minute, including retries (default: unlimited) */
+  requestsPerMinute?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, "requestsPerMinute">> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * An LLM call that still failed with a transient error after all retries.
+ * The problem is with the model provider, not the generated code.
+ */
+export class LLMCallError extends Error {
+  /** Number of requests made */
+  readonly attempts: number;
+  /** HTTP status of the last failed request, if any */
+  readonly status?: number;
+
+  constructor(message: string, attempts: number, cause: unknown) {
+    super(message, { cause });
+    this.name = "LLMCallError";
+    this.attempts = attempts;
+    this.status = errorStatus(cause);
+  }
+}
+
+// =============================================================================
+// ERROR CLASSIFICATION
+// =============================================================================
+
+/** HTTP status codes worth retrying: timeouts, conflicts, rate limits and server errors */
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Whether an error from a chat completion request is likely transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof APIConnectionError) return true;
+  const status = errorStatus(error);
+  return status !== undefined && (RETRYABLE_STATUSES.has(status) || status >= 500);
+}
+
+/**
+ * Delay requested by the provider's Retry-After header, if any.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  const value = headers instanceof Headers ? headers.get("retry-after") : undefined;
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// =============================================================================
+// RATE LIMITING AND RETRIES
+// =============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a limiter that spaces requests evenly to stay under a
+ * requests-per-minute limit. Slots are reserved synchronously, so
+ * concurrent callers queue up in call order.
+ *
+ * @returns A function to await before each request
+ */
+export function createRateLimiter(requestsPerMinute: number): () => Promise<void> {
+  const intervalMs = 60000 / requestsPerMinute;
+  let nextSlot = 0;
+
+  return async () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  };
+}
+
+/**
+ * Wrap a client with retries, exponential backoff (with jitter) and an
+ * optional requests-per-minute limit shared by all of its calls.
+ *
+ * @throws LLMCallError when a retryable error persists after maxRetries retries;
+ *   other errors are rethrown as they are
+ */
+export function withRetries(client: LLMClient, options: RetryOptions = {}): LLMClient {
+  const maxRetries = options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries;
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_RETRY_OPTIONS.initialDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const waitForSlot = options.requestsPerMinute ? createRateLimiter(options.requestsPerMinute) : undefined;
+
+  return {
+    name: client.name,
+    async createChatCompletion(request, context) {
+      for (let attempt = 1; ; attempt++) {
+        await waitForSlot?.();
+        try {
+          return await client.createChatCompletion(request, context);
+        } catch (error) {
+          if (!isRetryableError(error)) throw error;
+
+          const message = error instanceof Error ? error.message : String(error);
+          if (attempt > maxRetries) {
+            throw new LLMCallError(`LLM call failed after ${attempt} attempt(s): ${message}`, attempt, error);
+          }
+
+          // Jitter keeps concurrent rows from retrying in lockstep; Retry-After wins when sent
+          const backoff = Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+          const delay = Math.min(maxDelayMs, retryAfterMs(error) ?? backoff * (0.5 + Math.random() / 2));
+          console.warn(`[${client.name}] ${message} - retrying in ${(delay / 1000).toFixed(1)}s (${attempt}/${maxRetries})`);
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
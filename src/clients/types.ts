@@ -0,0 +1,42 @@
+/**
+ * LLM client types for the code generation evaluation framework.
+ *
+ * The harness talks to models only through an LLMClient, so the Braintrust
+ * AI proxy can be swapped for another provider or for canned fixture
+ * responses (e.g., to run the whole pipeline offline in CI).
+ */
+
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+
+/**
+ * What a completion request is for. Lets clients such as the fixture client
+ * answer per eval case and approach.
+ */
+export interface CompletionContext {
+  /** Name of the eval case being generated */
+  caseName?: string;
+  /** Registry name of the approach */
+  approach?: string;
+  /** Index of the sample within the eval case */
+  sampleIndex?: number;
+  /** 1 for the first generation, 2+ for self-repair rounds */
+  attempt?: number;
+  /** 1 for the first user turn, 2+ for follow-up turns of a multi-turn case */
+  turn?: number;
+}
+
+/**
+ * A chat completion client.
+ */
+export interface LLMClient {
+  /** Name shown in run output (e.g., "braintrust-proxy", "fixtures") */
+  name: string;
+  /** Create a (non-streaming) chat completion */
+  createChatCompletion(
+    request: ChatCompletionCreateParamsNonStreaming,
+    context?: CompletionContext
+  ): Promise<ChatCompletion>;
+}
@@ -0,0 +1,282 @@
+/**
+ * Approach registry.
+ *
+ * Built-in approaches:
+ * 1. baseline: LLM with realistic developer prompt (no extra help)
+ * 2. with-docs: Same prompt + documentation content fetched from URL
+ * 3. with-skill: Same prompt + skill content from local file(s)
+ * 4. with-docs-and-skill: Skill system prompt + documentation content
+ *
+ * Each of the first three also has a self-repair variant (e.g., "with-skill-repair")
+ * that feeds failed checks back to the model.
+ *
+ * Custom approaches can be registered with registerApproach() and then
+ * selected by name in EvaluationConfig.approaches.
+ */
+
+import { fetchDocumentationWithInfo } from "../utils/fetch-documentation.js";
+import { readSkillFilesWithInfo } from "../utils/read-skill-file.js";
+import {
+  commonJsTemplate,
+  renderInputTemplate,
+  renderPromptTemplate,
+  type RenderedPromptTemplate,
+} from "./prompt-templates.js";
+import type { Approach, ContextLoader, LoadedContext, TaskInput } from "./types.js";
+
+// =============================================================================
+// SYSTEM PROMPTS
+// =============================================================================
+
+/** System prompt of the default (commonjs) prompt template */
+export const BASELINE_SYSTEM_PROMPT = renderPromptTemplate(commonJsTemplate).system;
+
+/**
+ * Build the system prompt used by skill-based approaches.
+ *
+ * @param template - Rendered prompt template (default: the commonjs template)
+ */
+export function buildSkillSystemPrompt(
+  skillContent: string,
+  template: RenderedPromptTemplate = renderPromptTemplate(commonJsTemplate)
+): string {
+  return template.skillSystem(skillContent);
+}
+
+/**
+ * Append documentation content to a user prompt.
+ */
+export function buildDocsUserPrompt(prompt: string, docContent: string): string {
+  return `${prompt}
+
+Use the following MongoDB documentation as reference:
+
+${docContent}`;
+}
+
+/**
+ * Build the follow-up prompt sent when generated code fails its checks.
+ */
+export function buildRepairPrompt(problems: string[]): string {
+  return `The code you generated has the following problems:
+
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Fix the code. Return the complete corrected code only, following the same requirements.`;
+}
+
+// =============================================================================
+// CONTEXT LOADERS
+// =============================================================================
+
+/**
+ * Fetches documentation from input.docLink.
+ */
+export const docsLoader: ContextLoader = {
+  name: "docs",
+  async load(input: TaskInput): Promise<LoadedContext | null> {
+    if (!input.docLink) return null;
+
+    const docResult = await fetchDocumentationWithInfo(input.docLink);
+    const metadata: Record<string, unknown> = {
+      docContentLength: docResult.content.length,
+      docOriginalLength: docResult.originalLength,
+      docWasTruncated: docResult.wasTruncated,
+      docCharsTruncated: docResult.charsTruncated,
+      docUrl: docResult.url,
+    };
+
+    // Flag for easy filtering in Braintrust when docs were truncated
+    if (docResult.wasTruncated) {
+      metadata.docsTruncationWarning = `Documentation from ${docResult.url} was truncated: ${docResult.originalLength} -> ${docResult.content.length} chars (${docResult.charsTruncated} chars removed). Consider splitting or summarizing this docs page.`;
+    }
+
+    return { content: docResult.content, metadata };
+  },
+};
+
+/**
+ * Reads and concatenates input.skillFiles, recording where each file was
+ * read from and a hash of its content.
+ *
+ * @throws SkillFileError if input.strictSkills is set and a file can't be read
+ */
+export const skillLoader: ContextLoader = {
+  name: "skill",
+  async load(input: TaskInput): Promise<LoadedContext | null> {
+    if (!input.skillFiles) return null;
+
+    const skills = await readSkillFilesWithInfo(input.skillFiles, {
+      baseDir: input.skillBaseDir,
+      strict: input.strictSkills,
+    });
+    return {
+      content: skills.content,
+      metadata: {
+        skillFiles: input.skillFiles,
+        resolvedSkillFiles: skills.files.map(({ resolvedPath, sha256 }) => ({ path: resolvedPath, sha256 })),
+        skillContentHash: skills.sha256,
+        skillContent: skills.content,
+      },
+    };
+  },
+};
+
+// =============================================================================
+// BUILT-IN APPROACHES
+// =============================================================================
+
+export const baselineApproach: Approach = {
+  name: "baseline",
+  experimentName: "Baseline",
+  description: "Realistic developer prompt with no extra help",
+  buildPrompt: (input) => ({
+    system: renderInputTemplate(input).system,
+    user: input.prompt,
+  }),
+};
+
+export const withDocsApproach: Approach = {
+  name: "with-docs",
+  experimentName: "With Docs",
+  description: "Same prompt + documentation content fetched from docLink",
+  contextLoaders: [docsLoader],
+  buildPrompt: (input, context) => {
+    // Fall back to baseline if no docLink provided
+    if (!context.docs) {
+      return baselineApproach.buildPrompt(input, context);
+    }
+
+    const enhancedPrompt = buildDocsUserPrompt(input.prompt, context.docs.content);
+    return {
+      system: renderInputTemplate(input).system,
+      user: enhancedPrompt,
+      metadata: { actualPrompt: enhancedPrompt },
+    };
+  },
+};
+
+export const withSkillApproach: Approach = {
+  name: "with-skill",
+  experimentName: "With Skill",
+  description: "Same prompt + skill content in the system prompt",
+  contextLoaders: [skillLoader],
+  buildPrompt: (input, context) => {
+    if (!context.skill) {
+      throw new Error("skillFiles is required for the with-skill approach");
+    }
+
+    return {
+      system: buildSkillSystemPrompt(context.skill.content, renderInputTemplate(input)),
+      user: input.prompt,
+      metadata: { userPrompt: input.prompt },
+    };
+  },
+};
+
+export const withDocsAndSkillApproach: Approach = {
+  name: "with-docs-and-skill",
+  experimentName: "With Docs and Skill",
+  description: "Skill content in the system prompt + documentation content in the user prompt",
+  contextLoaders: [docsLoader, skillLoader],
+  buildPrompt: (input, context) => {
+    if (!context.skill) {
+      throw new Error("skillFiles is required for the with-docs-and-skill approach");
+    }
+
+    const userPrompt = context.docs
+      ? buildDocsUserPrompt(input.prompt, context.docs.content)
+      : input.prompt;
+    return {
+      system: buildSkillSystemPrompt(context.skill.content, renderInputTemplate(input)),
+      user: userPrompt,
+      metadata: { actualPrompt: userPrompt, userPrompt: input.prompt },
+    };
+  },
+};
+
+/** Repair rounds used by withSelfRepair() when none is given */
+export const DEFAULT_REPAIR_ROUNDS = 3;
+
+/**
+ * Create a self-repair variant of an approach.
+ *
+ * The variant generates code the same way, then sends execution errors and
+ * failed syntax/semantic assertions back to the model for up to maxRounds
+ * repair rounds. Only the final code is scored.
+ */
+export function withSelfRepair(approach: Approach, maxRounds: number = DEFAULT_REPAIR_ROUNDS): Approach {
+  return {
+    ...approach,
+    name: `${approach.name}-repair`,
+    experimentName: `${approach.experimentName} + Self-Repair`,
+    description: `${approach.description ?? approach.experimentName}, with up to ${maxRounds} self-repair round(s)`,
+    maxRepairRounds: maxRounds,
+  };
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const approachRegistry = new Map<string, Approach>();
+
+/** Approaches run when EvaluationConfig.approaches is not specified */
+export const DEFAULT_APPROACHES = ["baseline", "with-docs", "with-skill"];
+
+/**
+ * Register an approach so it can be selected by name.
+ *
+ * @throws Error if an approach with the same name is already registered
+ */
+export function registerApproach(approach: Approach): void {
+  if (approachRegistry.has(approach.name)) {
+    throw new Error(`Approach "${approach.name}" is already registered`);
+  }
+  approachRegistry.set(approach.name, approach);
+}
+
+/**
+ * Look up a registered approach by name.
+ *
+ * @throws Error if no approach is registered under that name
+ */
+export function getApproach(name: string): Approach {
+  const approach = approachRegistry.get(name);
+  if (!approach) {
+    const available = [...approachRegistry.keys()].join(", ");
+    throw new Error(`Unknown approach "${name}". Available approaches: ${available}`);
+  }
+  return approach;
+}
+
+/**
+ * List all registered approaches in registration order.
+ */
+export function listApproaches(): Approach[] {
+  return [...approachRegistry.values()];
+}
+
+/**
+ * Resolve a list of approach names and/or Approach objects.
+ */
+export function resolveApproaches(approaches: Array<string | Approach> = DEFAULT_APPROACHES): Approach[] {
+  return approaches.map((approach) =>
+    typeof approach === "string" ? getApproach(approach) : approach
+  );
+}
+
+/**
+ * Whether an approach reads skill files.
+ */
+export function loadsSkills(approach: Approach): boolean {
+  return approach.contextLoaders?.some((loader) => loader.name === "skill") ?? false;
+}
+
+registerApproach(baselineApproach);
+registerApproach(withDocsApproach);
+registerApproach(withSkillApproach);
+registerApproach(withDocsAndSkillApproach);
+registerApproach(withSelfRepair(baselineApproach));
+registerApproach(withSelfRepair(withDocsApproach));
+registerApproach(withSelfRepair(withSkillApproach));
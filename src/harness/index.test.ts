@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { fileURLToPath } from "node:url";
+import { createFixtureClient, loadFixturesFromFile } from "../clients/index.js";
+import { createLocalReporter, type RunReport } from "../reporters/index.js";
+import { loadEvalCasesFromDirectory } from "../utils/loadEvalCases.js";
+import { runEvaluation } from "./index.js";
+import type { ApproachSummary } from "./types.js";
+
+/** Repository root (tests run from dist/harness) */
+const ROOT = fileURLToPath(new URL("../../", import.meta.url));
+
+describe("runEvaluation with fixtures", () => {
+  let dir: string;
+  let summaries: ApproachSummary[];
+  const logged: string[] = [];
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "offline-run-"));
+    // Offline: no setup or cleanup against a real cluster
+    delete process.env.MONGODB_URI;
+    mock.method(console, "log", (message: unknown) => logged.push(String(message)));
+    mock.method(console, "warn", () => {});
+    try {
+      summaries = await runEvaluation({
+        projectName: "Offline test",
+        evalCases: loadEvalCasesFromDirectory(join(ROOT, "evalCases")),
+        approaches: ["baseline", "baseline-repair"],
+        generationModels: ["gpt-4o"],
+        reporters: [createLocalReporter({ outputDir: join(dir, "reports") })],
+        generationClient: createFixtureClient({ fixtures: loadFixturesFromFile(join(ROOT, "fixtures/search.yml")) }),
+        cache: { mode: "off" },
+        runState: { dir: join(dir, "runs") },
+      });
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("runs one experiment per approach", () => {
+    assert.deepEqual(
+      summaries.map((summary) => summary.experimentName),
+      ["Baseline [gpt-4o]", "Baseline + Self-Repair [gpt-4o]"]
+    );
+  });
+
+  it("scores every case without infrastructure errors", () => {
+    for (const { stats, infrastructureErrors } of summaries) {
+      assert.equal(infrastructureErrors, 0);
+      assert.equal(stats.samples, 3);
+      assert.equal(stats.cases.length, 3);
+    }
+  });
+
+  it("keeps scores above the eval:offline threshold", () => {
+    for (const { experimentName, stats } of summaries) {
+      assert.ok(stats.meanScore >= 0.4, `${experimentName}: mean score ${stats.meanScore}`);
+    }
+  });
+
+  it("reports repair statistics only for the repair approach", () => {
+    assert.equal(summaries[0]?.repair, undefined);
+    assert.ok(summaries[1]?.repair);
+  });
+
+  it("doesn't make up costs for fixture completions", () => {
+    for (const { usage } of summaries) {
+      assert.equal(usage.promptTokens, 0);
+      assert.equal(usage.totalCost, null);
+    }
+  });
+
+  it("writes the local report", async () => {
+    const [runDir] = await readdir(join(dir, "reports"));
+    assert.ok(runDir);
+    assert.deepEqual((await readdir(join(dir, "reports", runDir))).sort(), ["report.html", "report.json"]);
+  });
+
+  it("reports cleanup without MONGODB_URI as skipped, not failed", async () => {
+    const [runDir = ""] = await readdir(join(dir, "reports"));
+    const report = JSON.parse(await readFile(join(dir, "reports", runDir, "report.json"), "utf-8")) as RunReport;
+    assert.deepEqual(report.cleanupFailures, []);
+    assert.equal(logged.filter((line) => line.includes("Cleanup Failures")).length, 0);
+    assert.equal(logged.filter((line) => line === "\nCleanup skipped: MONGODB_URI not set").length, 1);
+  });
+});
+
+describe("runEvaluation", () => {
+  it("rejects duplicate case names", async () => {
+    const [evalCase] = loadEvalCasesFromDirectory(join(ROOT, "evalCases"));
+    assert.ok(evalCase);
+    await assert.rejects(
+      runEvaluation({ projectName: "Duplicates", evalCases: [evalCase, { ...evalCase }], reporters: ["local"] }),
+      /Duplicate eval case name/
+    );
+  });
+});
@@ -6,6 +6,9 @@
  * 2. With Documentation: Same prompt + documentation content fetched from URL
  * 3. With Skill: Same prompt + skill content from a local file
  *
+ * Approaches are looked up in a registry (see approaches.ts), so custom
+ * approaches can be registered and selected via EvaluationConfig.approaches.
+ *
  * Usage:
  * ```typescript
  * import { runEvaluation } from "./harness/index.js";
@@ -15,19 +18,86 @@
  * await runEvaluation({
  *   projectName: "My Project",
  *   evalCases,
+ *   approaches: ["baseline", "with-skill"],
  * });
  * ```
  */
 
+import { dirname } from "path";
 import { Eval } from "braintrust";
-import OpenAI from "openai";
-import { fetchDocumentationWithInfo } from "../utils/fetch-documentation.js";
-import { readSkillFiles } from "../utils/read-skill-file.js";
-import { executeMongoDBCode } from "../utils/code-executor.js";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { executeMongoDBCode, type ExecutionResult } from "../utils/code-executor.js";
+import { executePythonCode } from "../utils/python-executor.js";
+import { executeTypeScriptCode } from "../utils/typescript-executor.js";
 import { runCleanup } from "../utils/cleanup.js";
+import { revertSetup, runSetup, SetupError, type AppliedSetup } from "../utils/setup.js";
 import { aggregateScores, flattenScores } from "../utils/averageScores.js";
-import { allScorers, type ScorerContext, type ScoreResult } from "../scorers/index.js";
-import type { EvalCase, EvalCaseExpected } from "../schemas/evalCase.js";
+import { mean, summarizeSamples, type SampleScore } from "../utils/sampleStats.js";
+import { createGenerationCache } from "../utils/generation-cache.js";
+import { openRunState } from "../utils/run-state.js";
+import { resolveSkillBaseDir, SkillFileError, type SkillFileOptions } from "../utils/read-skill-file.js";
+import {
+  DEFAULT_MODEL_PRICES,
+  addUsage,
+  createGenerationUsage,
+  type GenerationUsage,
+} from "../utils/generation-usage.js";
+import {
+  createIsolatedNamespace,
+  dropIsolatedNamespace,
+  redirectCleanup,
+  redirectExpected,
+  redirectSetup,
+  type DatabaseRedirects,
+} from "../utils/db-isolation.js";
+import {
+  allScorers,
+  getScoreCategory,
+  type ScoreCategory,
+  type ScorerContext,
+  type ScoreResult,
+} from "../scorers/index.js";
+import type { CodeLanguage, EvalCase, EvalCaseExecution, EvalCaseExpected } from "../schemas/evalCase.js";
+import {
+  resolveReporters,
+  type CaseReport,
+  type CleanupFailureReport,
+  type ExperimentReport,
+  type RunReport,
+  type SampleScores,
+} from "../reporters/index.js";
+import {
+  createProxyClient,
+  LLMCallError,
+  withRetries,
+  type CompletionContext,
+  type LLMClient,
+} from "../clients/index.js";
+import { buildRepairPrompt, getApproach, resolveApproaches } from "./approaches.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATES,
+  getPromptTemplate,
+  listPromptTemplates,
+  registerPromptTemplate,
+  renderInputTemplate,
+  type PromptTemplate,
+} from "./prompt-templates.js";
+import type {
+  Approach,
+  ApproachSummary,
+  EvaluationConfig,
+  GenerationModelConfig,
+  LoadedContext,
+  RepairFeedback,
+  TaskInput,
+  TaskOptions,
+  UsageSummary,
+} from "./types.js";
 
 // =============================================================================
 // MODEL CONFIGURATION
@@ -36,73 +106,79 @@ import type { EvalCase, EvalCaseExpected } from "../schemas/evalCase.js";
 /** Model used for code generation tasks */
 export const GENERATION_MODEL = process.env.GENERATION_MODEL || "gpt-4o";
 
+/** Sampling temperature used when a model config doesn't specify one */
+export const DEFAULT_TEMPERATURE = 0.2;
+
 /** Model used for LLM-based scoring (different from generation to avoid bias) */
 export const SCORING_MODEL = process.env.SCORING_MODEL || "claude-sonnet-4-5-20250929";
 
 // =============================================================================
-// BRAINTRUST AI PROXY CLIENTS
+// BRAINTRUST AI PROXY CLIENT
 // =============================================================================
 
 /**
- * API key for AI Proxy LLM access.
- * Falls back to BRAINTRUST_API_KEY if BRAINTRUST_AI_PROXY_KEY is not set.
+ * Default client for code generation (Braintrust AI Proxy, with default retries).
+ * Override with TaskOptions.client or EvaluationConfig.generationClient.
  */
-const AI_PROXY_KEY = process.env.BRAINTRUST_AI_PROXY_KEY || process.env.BRAINTRUST_API_KEY;
+export const generationClient: LLMClient = withRetries(createProxyClient());
 
 /**
- * OpenAI client configured to use Braintrust AI Proxy for code generation.
+ * Normalize a model name or config into a GenerationModelConfig.
  */
-export const generationClient = new OpenAI({
-  baseURL: "https://api.braintrust.dev/v1/proxy",
-  apiKey: AI_PROXY_KEY,
-});
+export function resolveGenerationModel(model: string | GenerationModelConfig): GenerationModelConfig {
+  return typeof model === "string" ? { model } : model;
+}
 
 /**
- * OpenAI client configured to use Braintrust AI Proxy for scoring.
+ * Label used for a model in experiment names and metadata.
  */
-export const scoringClient = new OpenAI({
-  baseURL: "https://api.braintrust.dev/v1/proxy",
-  apiKey: AI_PROXY_KEY,
-});
+function modelLabel(model: GenerationModelConfig): string {
+  return model.label ?? model.model;
+}
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-/** Input structure for evaluation task functions (derived from EvalCase.input) */
-export interface TaskInput {
-  /** The prompt to send to the LLM */
-  prompt: string;
-  /** URL to fetch documentation from (for "With Docs" approach) */
-  docLink?: string;
-  /** Path(s) to skill file(s) (for "With Skill" approach) - can be a single path or array */
-  skillFiles?: string | string[];
-}
+export type {
+  TaskInput,
+  EvaluationConfig,
+  ApproachSummary,
+  GenerationModelConfig,
+  TaskOptions,
+  RepairFeedback,
+  RepairSummary,
+  UsageSummary,
+  Approach,
+  ApproachPrompt,
+  ContextLoader,
+  LoadedContext,
+} from "./types.js";
 
-/** Configuration for running an evaluation */
-export interface EvaluationConfig {
-  /** Braintrust project name */
-  projectName: string;
-  /** Array of eval cases loaded from YAML */
-  evalCases: EvalCase[];
-}
+export {
+  BASELINE_SYSTEM_PROMPT,
+  DEFAULT_APPROACHES,
+  registerApproach,
+  getApproach,
+  listApproaches,
+  resolveApproaches,
+  withSelfRepair,
+  DEFAULT_REPAIR_ROUNDS,
+} from "./approaches.js";
+
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATES,
+  registerPromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  type PromptTemplate,
+} from "./prompt-templates.js";
 
 // =============================================================================
-// SYSTEM PROMPTS
+// OUTPUT PROCESSING
 // =============================================================================
 
-const BASELINE_SYSTEM_PROMPT = `You are a helpful coding assistant. Generate Node.js code using the MongoDB driver.
-
-Requirements:
-- Use CommonJS syntax (require, not import)
-- Use async/await
-- Include error handling
-- Get the MongoDB connection string from the MONGODB_URI environment variable (process.env.MONGODB_URI)
-- Do NOT hardcode connection strings like "mongodb://localhost:27017"
-- Return only executable code
-- Do NOT wrap code in markdown code blocks or backticks
-- No explanations or comments outside the code`;
-
 /**
  * Strip markdown code blocks from LLM output.
  * LLMs sometimes wrap code in \`\`\`javascript ... \`\`\` despite being told not to.
@@ -126,8 +202,6 @@ function stripMarkdownCodeBlocks(code: string): string {
     return fullMatch[1].trim();
   }
 
-
-
   // Handle partial wrapping - just strip the markers
   let cleaned = trimmed;
   // Remove leading ``` with optional language identifier
@@ -143,257 +217,1048 @@ function stripMarkdownCodeBlocks(code: string): string {
 // =============================================================================
 
 /**
- * Task function for baseline approach (no extra help)
+ * Task function for any approach.
+ *
+ * Runs the approach's context loaders, builds the prompt, and generates code.
+ * Loader and prompt metadata are recorded in Braintrust via hooks, along
+ * with token usage, latency and estimated cost summed over all generations.
+ *
+ * For multi-turn inputs, each follow-up prompt is sent after the model's
+ * previous answer, so the conversation (including earlier code) carries
+ * forward. Each turn's code is recorded in hooks.metadata.turns.
+ *
+ * For approaches with maxRepairRounds, the final turn's code is checked with
+ * options.check and any problems are sent back to the model, up to
+ * maxRepairRounds times. The last generated code is returned.
  */
-export async function taskBaseline(input: TaskInput, hooks?: any): Promise<string> {
-  console.log(`[Baseline] Generating code with ${GENERATION_MODEL}...`);
+export async function taskWithApproach(
+  approach: Approach,
+  input: TaskInput,
+  hooks?: any,
+  options: TaskOptions = {}
+): Promise<string> {
+  const { model = GENERATION_MODEL } = options;
+  const modelConfig = resolveGenerationModel(model);
+  console.log(`[${approach.experimentName}] Generating code with ${modelConfig.model}...`);
 
-  if (hooks) {
-    hooks.metadata.generationModel = GENERATION_MODEL;
+  const context: Record<string, LoadedContext> = {};
+  for (const loader of approach.contextLoaders ?? []) {
+    const loaded = await loader.load(input);
+    if (loaded) {
+      context[loader.name] = loaded;
+    }
   }
 
-  const response = await generationClient.chat.completions.create({
-    model: GENERATION_MODEL,
-    messages: [
-      { role: "system", content: BASELINE_SYSTEM_PROMPT },
-      { role: "user", content: input.prompt }
-    ],
-    temperature: 0.2,
-  });
-  const rawOutput = response.choices[0]?.message?.content || "";
-  return stripMarkdownCodeBlocks(rawOutput);
-}
+  const prompt = approach.buildPrompt(input, context);
 
-/**
- * Task function with documentation content
- */
-export async function taskWithDocs(input: TaskInput, hooks?: any): Promise<string> {
-  console.log(`[WithDocs] Generating code with ${GENERATION_MODEL}...`);
+  if (hooks) {
+    for (const loaded of Object.values(context)) {
+      Object.assign(hooks.metadata, loaded.metadata);
+    }
+    Object.assign(hooks.metadata, prompt.metadata);
+    const template = renderInputTemplate(input);
+    hooks.metadata.promptTemplate = template.name;
+    hooks.metadata.promptVariables = template.variables;
+    hooks.metadata.systemPrompt = prompt.system;
+    hooks.metadata.approach = approach.name;
+    hooks.metadata.generationModel = modelConfig.model;
+    hooks.metadata.generationModelLabel = modelLabel(modelConfig);
+    hooks.metadata.temperature = modelConfig.temperature ?? DEFAULT_TEMPERATURE;
+  }
 
-  if (!input.docLink) {
-    // Fall back to baseline if no docLink provided
-    return taskBaseline(input, hooks);
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: prompt.system },
+    { role: "user", content: prompt.user }
+  ];
+  let code = await generateCode(messages, modelConfig, options, hooks, 1, 1);
+
+  if (input.followUps?.length) {
+    const turns = [{ turn: 1, prompt: input.prompt, code }];
+    for (const [index, followUp] of input.followUps.entries()) {
+      const turn = index + 2;
+      console.log(`[${approach.experimentName}] Turn ${turn} of ${input.followUps.length + 1}`);
+      messages.push({ role: "assistant", content: code }, { role: "user", content: followUp });
+      code = await generateCode(messages, modelConfig, options, hooks, 1, turn);
+      turns.push({ turn, prompt: followUp, code });
+    }
+    if (hooks) {
+      hooks.metadata.turns = turns;
+    }
   }
 
-  const docResult = await fetchDocumentationWithInfo(input.docLink);
+  // Self-repair: feed failed checks back to the model until the code passes
+  const maxRepairRounds = approach.maxRepairRounds ?? 0;
+  if (maxRepairRounds > 0 && options.check) {
+    const history: Array<{ attempt: number; passed: boolean; problems: string[] }> = [];
+    let attemptsToSuccess: number | null = null;
 
-  const enhancedPrompt = `${input.prompt}
+    for (let attempt = 1; attempt <= maxRepairRounds + 1; attempt++) {
+      const feedback = await options.check(code);
+      history.push({ attempt, passed: feedback.passed, problems: feedback.problems });
 
-Use the following MongoDB documentation as reference:
+      if (feedback.passed) {
+        attemptsToSuccess = attempt;
+        break;
+      }
+      if (attempt > maxRepairRounds) break;
 
-${docResult.content}`;
+      console.log(`[${approach.experimentName}] Repair round ${attempt}: ${feedback.problems.length} problem(s)`);
+      messages.push(
+        { role: "assistant", content: code },
+        { role: "user", content: buildRepairPrompt(feedback.problems) }
+      );
+      code = await generateCode(messages, modelConfig, options, hooks, attempt + 1, (input.followUps?.length ?? 0) + 1);
+    }
 
-  if (hooks) {
-    hooks.metadata.actualPrompt = enhancedPrompt;
-    hooks.metadata.docContentLength = docResult.content.length;
-    hooks.metadata.docOriginalLength = docResult.originalLength;
-    hooks.metadata.docWasTruncated = docResult.wasTruncated;
-    hooks.metadata.docCharsTruncated = docResult.charsTruncated;
-    hooks.metadata.docUrl = docResult.url;
-    hooks.metadata.generationModel = GENERATION_MODEL;
-
-    // Flag for easy filtering in Braintrust when docs were truncated
-    if (docResult.wasTruncated) {
-      hooks.metadata.docsTruncationWarning = `Documentation from ${docResult.url} was truncated: ${docResult.originalLength} -> ${docResult.content.length} chars (${docResult.charsTruncated} chars removed). Consider splitting or summarizing this docs page.`;
+    if (hooks) {
+      hooks.metadata.repairAttempts = history.length;
+      hooks.metadata.attemptsToSuccess = attemptsToSuccess;
+      hooks.metadata.repairHistory = history;
     }
   }
 
-  const response = await generationClient.chat.completions.create({
-    model: GENERATION_MODEL,
-    messages: [
-      { role: "system", content: BASELINE_SYSTEM_PROMPT },
-      { role: "user", content: enhancedPrompt }
-    ],
-    temperature: 0.2,
-  });
-  const rawOutput = response.choices[0]?.message?.content || "";
-  return stripMarkdownCodeBlocks(rawOutput);
+  return code;
 }
 
 /**
- * Task function with skill/expertise from a file
+ * Call the generation model (through the cache, if enabled) and return the code.
+ * Adds the generation's usage to hooks.metadata.usage.
  */
-export async function taskWithSkill(input: TaskInput, hooks?: any): Promise<string> {
-  console.log(`[WithSkill] Generating code with ${GENERATION_MODEL}...`);
+async function generateCode(
+  messages: ChatCompletionMessageParam[],
+  modelConfig: GenerationModelConfig,
+  options: TaskOptions,
+  hooks: any,
+  attempt: number,
+  turn: number
+): Promise<string> {
+  const { cache, client = generationClient } = options;
+  const completionContext: CompletionContext = {
+    caseName: hooks?.metadata?.caseName,
+    approach: hooks?.metadata?.approach,
+    sampleIndex: hooks?.metadata?.sampleIndex,
+    attempt,
+    turn,
+  };
+  const request: ChatCompletionCreateParamsNonStreaming = {
+    model: modelConfig.model,
+    // Copy so later repair rounds don't change a recorded request
+    messages: [...messages],
+    temperature: modelConfig.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: modelConfig.maxTokens,
+    top_p: modelConfig.topP,
+  };
 
-  if (!input.skillFiles) {
-    throw new Error("skillFiles is required for taskWithSkill");
+  let response: ChatCompletion;
+  let latencyMs: number;
+  if (cache && cache.mode !== "off") {
+    // Repeated samples of the same request are recorded separately
+    const cached = await cache.getOrGenerate(
+      request,
+      () => client.createChatCompletion(request, completionContext),
+      hooks?.metadata?.sampleIndex
+    );
+    response = cached.response;
+    // Replayed generations report the latency measured when they were recorded
+    latencyMs = cached.durationMs ?? 0;
+    if (hooks) {
+      hooks.metadata.generationCacheKey = cached.key;
+      hooks.metadata.generationCacheHit = cached.hit;
+    }
+  } else {
+    const startTime = Date.now();
+    response = await client.createChatCompletion(request, completionContext);
+    latencyMs = Date.now() - startTime;
   }
-  const skillContent = await readSkillFiles(input.skillFiles);
-
-  const systemPrompt = `You are a MongoDB expert assistant. Generate Node.js code using the MongoDB driver.
-
-Requirements:
-- Use CommonJS syntax (require, not import)
-- Use async/await
-- Include error handling
-- Get the MongoDB connection string from the MONGODB_URI environment variable (process.env.MONGODB_URI)
-- Do NOT hardcode connection strings like "mongodb://localhost:27017"
-- Return only executable code
-- Do NOT wrap code in markdown code blocks or backticks
-- No explanations or comments outside the code
-
-${skillContent}`;
 
   if (hooks) {
-    hooks.metadata.skillFiles = input.skillFiles;
-    hooks.metadata.skillContent = skillContent;
-    hooks.metadata.userPrompt = input.prompt;
-    hooks.metadata.generationModel = GENERATION_MODEL;
+    const usage = createGenerationUsage(modelConfig.model, response.usage, latencyMs, options.prices);
+    const previous = hooks.metadata.usage as GenerationUsage | undefined;
+    hooks.metadata.usage = previous ? addUsage(previous, usage) : usage;
   }
 
-  const response = await generationClient.chat.completions.create({
-    model: GENERATION_MODEL,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: input.prompt }
-    ],
-    temperature: 0.2,
-  });
   const rawOutput = response.choices[0]?.message?.content || "";
   return stripMarkdownCodeBlocks(rawOutput);
 }
 
+/**
+ * Task function for baseline approach (no extra help)
+ */
+export async function taskBaseline(input: TaskInput, hooks?: any): Promise<string> {
+  return taskWithApproach(getApproach("baseline"), input, hooks);
+}
+
+/**
+ * Task function with documentation content
+ */
+export async function taskWithDocs(input: TaskInput, hooks?: any): Promise<string> {
+  return taskWithApproach(getApproach("with-docs"), input, hooks);
+}
+
+/**
+ * Task function with skill/expertise from a file
+ */
+export async function taskWithSkill(input: TaskInput, hooks?: any): Promise<string> {
+  return taskWithApproach(getApproach("with-skill"), input, hooks);
+}
+
 // =============================================================================
 // EVALUATION RUNNER
 // =============================================================================
 
+/** Per-row metadata identifying the eval case and sample */
+interface EvalDatumMetadata {
+  caseName: string;
+  /** Index of the eval case in EvaluationConfig.evalCases */
+  caseIndex: number;
+  sampleIndex: number;
+  sampleCount: number;
+  /** Matrix parameter values of the eval case, if it was expanded from a matrix */
+  parameters?: Record<string, string>;
+  /** Code generated in each turn of a multi-turn case (set by the task) */
+  turns?: TurnOutput[];
+  /** Isolated database copies used by this row (set by the task when isolation is on) */
+  isolatedDatabases?: DatabaseRedirects;
+  /**
+   * Set by the task when an LLM call failed after all retries, a skill
+   * file couldn't be read in strict mode, or the case's setup failed; the
+   * row is not scored
+   */
+  outcome?: "infrastructure_error";
+  /** Error from the failed LLM call, skill file read or setup */
+  infrastructureError?: string;
+}
+
+/** Code generated in one turn of a multi-turn case */
+interface TurnOutput {
+  turn: number;
+  prompt: string;
+  code: string;
+}
+
+/** A single row of Braintrust data */
+interface EvalDatum {
+  input: TaskInput;
+  expected: EvalCaseExpected;
+  metadata: EvalDatumMetadata;
+}
+
+/** Run-level settings an eval case can override */
+interface EvalCaseDefaults {
+  samples: number;
+  promptTemplate?: string;
+  promptVariables?: Record<string, string>;
+  skills?: SkillFileOptions;
+}
+
+/**
+ * Pick the prompt template for an eval case: the case's own template, else
+ * the run's template if it targets the case's language, else the default
+ * template for the case's language.
+ */
+function selectPromptTemplate(evalCase: EvalCase, runTemplate: string | undefined): string {
+  if (evalCase.input.promptTemplate) return evalCase.input.promptTemplate;
+
+  const language = evalCase.language ?? "javascript";
+  if (runTemplate && (getPromptTemplate(runTemplate).language ?? "javascript") === language) {
+    return runTemplate;
+  }
+  return DEFAULT_PROMPT_TEMPLATES[language];
+}
+
 /**
  * Convert an EvalCase to the format expected by Braintrust.
+ * Produces one row per sample.
  */
-function evalCaseToData(evalCase: EvalCase): { input: TaskInput; expected: EvalCaseExpected } {
-  return {
+function evalCaseToData(evalCase: EvalCase, caseIndex: number, defaults: EvalCaseDefaults): EvalDatum[] {
+  const sampleCount = evalCase.samples ?? defaults.samples;
+  const promptVariables = defaults.promptVariables || evalCase.input.promptVariables
+    ? { ...defaults.promptVariables, ...evalCase.input.promptVariables }
+    : undefined;
+  // The schema requires either a prompt or at least one turn
+  const [prompt = "", ...followUps] = evalCase.input.turns?.map((turn) => turn.prompt) ?? [evalCase.input.prompt ?? ""];
+  return Array.from({ length: sampleCount }, (_, sampleIndex) => ({
     input: {
-      prompt: evalCase.input.prompt,
+      prompt,
+      followUps: followUps.length > 0 ? followUps : undefined,
       docLink: evalCase.input.docLink,
       skillFiles: evalCase.input.skillFiles,
+      skillBaseDir: evalCase.input.skillFiles
+        ? resolveSkillBaseDir(evalCase.sourceFile, defaults.skills?.root)
+        : undefined,
+      strictSkills: defaults.skills?.strict,
+      promptTemplate: selectPromptTemplate(evalCase, defaults.promptTemplate),
+      promptVariables,
     },
     expected: evalCase.expected,
+    metadata: {
+      caseName: evalCase.name,
+      caseIndex,
+      sampleIndex,
+      sampleCount,
+      parameters: evalCase.parameters,
+    },
+  }));
+}
+
+/** Full scoring details for a row, kept for reporters */
+interface ScoredRow {
+  scores: SampleScores;
+  executionResult: ScorerContext["executionResult"];
+  /** Turns of a multi-turn case that have their own assertions */
+  turns?: ScoredTurn[];
+}
+
+/** Scores of one turn's code against the turn's own assertions */
+interface ScoredTurn {
+  turn: number;
+  scores: SampleScores;
+  executionResult: ScorerContext["executionResult"];
+}
+
+/** A scored row as saved in the run state, so a resumed run can report it */
+interface CompletedRow {
+  result: EvalRowResult;
+  scored: ScoredRow;
+}
+
+/** Run-level callbacks for the eval scorer */
+interface ScorerHooks {
+  /** Drop a row's isolated databases */
+  releaseNamespace(redirects: DatabaseRedirects): Promise<void>;
+  /** Revert what a row's setup created */
+  revertSetup(metadata: EvalDatumMetadata): Promise<void>;
+  /** Run an eval case's cleanup (on the row's isolated databases, if any), recording failed actions */
+  cleanUp(evalCase: EvalCase, redirects?: DatabaseRedirects): Promise<void>;
+  /** Save a scored row to the run state */
+  recordRow(row: CompletedRow): Promise<void>;
+}
+
+/**
+ * Key identifying a row within an experiment.
+ */
+function rowKey(metadata: EvalDatumMetadata): string {
+  return `${metadata.caseIndex}:${metadata.sampleIndex}`;
+}
+
+/**
+ * Key identifying a row in the run state. Uses the case name rather than
+ * its index, so a resumed run can load cases with different filters.
+ */
+function stateKey(metadata: EvalDatumMetadata): string {
+  return `${metadata.caseName}#${metadata.sampleIndex}`;
+}
+
+/** Code executor for each eval case language */
+const EXECUTORS: Record<CodeLanguage, typeof executeMongoDBCode> = {
+  javascript: executeMongoDBCode,
+  typescript: executeTypeScriptCode,
+  python: executePythonCode,
+};
+
+/** Execution timeout when the eval case doesn't set timeoutSeconds */
+const DEFAULT_EXECUTION_TIMEOUT_SECONDS = 30;
+
+/**
+ * Execute the code with the eval case's execution settings.
+ *
+ * A failed execution is re-run up to execution.retries times, running the
+ * eval case's cleanup first so partial work (e.g. a half-created index)
+ * doesn't fail the retry.
+ */
+async function executeCode(
+  output: string,
+  execution: EvalCaseExecution,
+  language: CodeLanguage,
+  cleanUp: () => Promise<void>,
+  redirects?: DatabaseRedirects
+): Promise<ExecutionResult> {
+  const execute = EXECUTORS[language];
+  const timeout = (execution?.timeoutSeconds ?? DEFAULT_EXECUTION_TIMEOUT_SECONDS) * 1000;
+  const retries = execution?.retries ?? 0;
+
+  for (let attempt = 1; ; attempt++) {
+    let result: ExecutionResult;
+    try {
+      result = await execute(output, undefined, timeout, {
+        databaseRedirects: redirects,
+        allowedModules: execution?.allowedModules,
+        env: execution?.env,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = { success: false, error: message };
+    }
+
+    if (result.success || attempt > retries) {
+      return attempt > 1 ? { ...result, attempts: attempt } : result;
+    }
+
+    console.log(`[Execution] Attempt ${attempt} failed, retrying (${retries - attempt + 1} left): ${result.error}`);
+    await cleanUp();
+  }
+}
+
+/**
+ * Execute the code (if needed) and run all scorers against it.
+ *
+ * Code is executed only if execution or result assertions are specified,
+ * with the executor for the eval case's language. With database redirects, the code and result assertions use the row's
+ * isolated databases.
+ */
+async function scoreOutput(
+  output: string,
+  expected: EvalCaseExpected,
+  language: CodeLanguage,
+  cleanUp: () => Promise<void>,
+  redirects?: DatabaseRedirects
+): Promise<{ flatScores: ScoreResult[]; executionResult: ScorerContext["executionResult"] }> {
+  if (redirects) {
+    expected = redirectExpected(expected, redirects);
+  }
+
+  // Execute code if execution or result assertions are specified
+  let executionResult: ScorerContext["executionResult"];
+  if (expected.execution?.shouldSucceed || expected.result) {
+    executionResult = await executeCode(output, expected.execution, language, cleanUp, redirects);
+  }
+
+  // Build scorer context
+  const context: ScorerContext = {
+    output,
+    expected,
+    language,
+    executionResult,
   };
+
+  // Run all scorers
+  const scorerResults: Array<ScoreResult | ScoreResult[]> = [];
+  for (const scorer of allScorers) {
+    const result = await scorer(context);
+    scorerResults.push(result);
+  }
+
+  // Flatten results (some scorers return arrays)
+  return { flatScores: flattenScores(scorerResults), executionResult };
+}
+
+/**
+ * Score the code of each turn of a multi-turn case that has its own
+ * assertions. The eval case's cleanup runs after each turn, so every turn's
+ * code (and the final scoring) starts from a clean state.
+ */
+async function scoreTurns(
+  evalCase: EvalCase,
+  turns: TurnOutput[],
+  cleanUp: () => Promise<void>,
+  redirects?: DatabaseRedirects
+): Promise<ScoredTurn[]> {
+  const scoredTurns: ScoredTurn[] = [];
+  for (const { turn, code } of turns) {
+    const expected = evalCase.input.turns?.[turn - 1]?.expected;
+    if (!expected) continue;
+
+    const { flatScores, executionResult } = await scoreOutput(
+      code,
+      expected,
+      evalCase.language ?? "javascript",
+      cleanUp,
+      redirects
+    );
+    scoredTurns.push({ turn, scores: aggregateScores(flatScores), executionResult });
+    await cleanUp();
+  }
+  return scoredTurns;
 }
 
 /**
  * Create a scorer function that runs all scorers and returns all scores.
  *
  * This function:
- * 1. Executes the code (if execution assertions are specified)
- * 2. Runs all scorers with the execution result
- * 3. Aggregates scores into categories and compound
- * 4. Returns all scores for Braintrust
+ * 1. Scores each turn of a multi-turn case that has its own assertions
+ * 2. Executes the final code (if execution assertions are specified)
+ * 3. Runs all scorers with the execution result
+ * 4. Aggregates scores into categories and compound
+ * 5. Runs the eval case's cleanup and reverts its setup so the next sample
+ *    starts from a clean state (or drops the row's isolated databases)
+ * 6. Saves the row to the run state and returns all scores for Braintrust
+ *
+ * Turn scores are returned as "Turn<n>_CompoundCodeGenScore"; the case's
+ * own scores (and pass@k) are for the final turn's code. Full score details
+ * (including metadata) are stored in scoredRows for reporters.
  */
-function createEvalScorer(_evalCase: EvalCase) {
+function createEvalScorer(evalCases: EvalCase[], scoredRows: Map<string, ScoredRow>, hooks: ScorerHooks) {
   return async function scorer(args: {
     input: TaskInput;
     output: string;
     expected: EvalCaseExpected;
+    metadata?: Record<string, unknown>;
   }): Promise<ScoreResult[]> {
     const { output, expected } = args;
+    const metadata = args.metadata as EvalDatumMetadata | undefined;
+    const evalCase = metadata ? evalCases[metadata.caseIndex] : undefined;
 
-    // Execute code if execution or result assertions are specified
-    let executionResult: ScorerContext["executionResult"];
-    if (expected.execution?.shouldSucceed || expected.result) {
-      try {
-        executionResult = await executeMongoDBCode(output);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        executionResult = { success: false, error: message };
-      }
+    // No code was generated, so there is nothing to score (or clean up)
+    if (metadata?.outcome === "infrastructure_error") {
+      return [];
     }
 
-    // Build scorer context
-    const context: ScorerContext = {
-      output,
-      expected,
-      executionResult,
+    const redirects = metadata?.isolatedDatabases;
+
+    const cleanUp = async () => {
+      if (evalCase) await hooks.cleanUp(evalCase, redirects);
     };
 
-    // Run all scorers
-    const scorerResults: Array<ScoreResult | ScoreResult[]> = [];
-    for (const scorer of allScorers) {
-      const result = await scorer(context);
-      scorerResults.push(result);
-    }
+    const turns = evalCase && metadata?.turns ? await scoreTurns(evalCase, metadata.turns, cleanUp, redirects) : [];
 
-    // Flatten results (some scorers return arrays)
-    const flatScores = flattenScores(scorerResults);
+    const { flatScores, executionResult } = await scoreOutput(
+      output,
+      expected,
+      evalCase?.language ?? "javascript",
+      cleanUp,
+      redirects
+    );
 
     // Aggregate into categories and compound
     const aggregated = aggregateScores(flatScores);
+    const scored: ScoredRow = { scores: aggregated, executionResult, turns: turns.length > 0 ? turns : undefined };
+
+    if (metadata) {
+      scoredRows.set(rowKey(metadata), scored);
+    }
+
+    if (redirects) {
+      await hooks.releaseNamespace(redirects);
+    } else if (evalCase) {
+      await hooks.cleanUp(evalCase);
+      if (metadata) await hooks.revertSetup(metadata);
+    }
 
-    // Return all scores: individual + categories + compound
-    return [
+    // Return all scores: individual + categories + compound, then each turn's compound
+    const scores = [
       ...aggregated.individual,
       ...aggregated.categories,
       aggregated.compound,
+      ...turns.map(({ turn, scores }) => ({ ...scores.compound, name: `Turn${turn}_${scores.compound.name}` })),
     ];
+
+    // Only saved once cleanup is done, so a resumed run never skips a row that left resources behind
+    if (metadata) {
+      await hooks.recordRow({
+        result: {
+          input: args.input,
+          output,
+          metadata,
+          scores: Object.fromEntries(scores.map((score) => [score.name, score.score])),
+          error: null,
+        },
+        scored,
+      });
+    }
+
+    return scores;
+  };
+}
+
+/**
+ * Score categories whose failed assertions are fed back to the model during
+ * self-repair (execution failures are reported with the full error instead).
+ */
+const REPAIR_CATEGORIES: ScoreCategory[] = ["syntax", "semantic"];
+
+/**
+ * Create a self-repair check for an eval case.
+ *
+ * Runs the same scorers as the final scoring, reports failed syntax,
+ * semantic and execution assertions as problems, then runs the eval case's
+ * cleanup so the next attempt (or the final scoring) starts from a clean state.
+ */
+function createRepairCheck(
+  evalCase: EvalCase | undefined,
+  expected: EvalCaseExpected,
+  cleanUp: () => Promise<void>,
+  redirects?: DatabaseRedirects
+) {
+  return async function check(code: string): Promise<RepairFeedback> {
+    const { flatScores, executionResult } = await scoreOutput(
+      code,
+      expected,
+      evalCase?.language ?? "javascript",
+      cleanUp,
+      redirects
+    );
+
+    const problems: string[] = [];
+    if (executionResult && !executionResult.success) {
+      problems.push(`Execution failed: ${executionResult.error}`);
+    }
+    for (const score of flatScores) {
+      if (score.score !== 0 || !REPAIR_CATEGORIES.includes(getScoreCategory(score.name))) continue;
+
+      const detail = score.metadata?.error ?? score.metadata?.reason;
+      problems.push(detail ? `${score.name} failed: ${detail}` : `${score.name} failed`);
+    }
+
+    await cleanUp();
+
+    return { passed: problems.length === 0, problems };
+  };
+}
+
+/** The parts of a row result returned by Braintrust's Eval() that we use */
+interface EvalRowResult {
+  input: TaskInput;
+  output: string;
+  metadata?: unknown;
+  scores: Record<string, number | null>;
+  error: unknown;
+}
+
+/**
+ * Summarize an approach's Braintrust results into sample statistics.
+ */
+function summarizeApproach(
+  approach: Approach,
+  model: GenerationModelConfig,
+  experimentName: string,
+  results: EvalRowResult[],
+  k: number,
+  passThreshold: number
+): ApproachSummary {
+  // Rows that failed on an LLM call say nothing about the approach
+  const scoredResults = results.filter((result) => !isInfrastructureError(result));
+  const samples: SampleScore[] = scoredResults.map((result) => ({
+    caseName: (result.metadata as EvalDatumMetadata).caseName,
+    score: result.scores.CompoundCodeGenScore ?? null,
+  }));
+
+  const stats = summarizeSamples(samples, k, passThreshold);
+  const summary: ApproachSummary = {
+    approach: approach.name,
+    experimentName,
+    model: modelLabel(model),
+    stats,
+    usage: summarizeUsage(results, stats.cases.filter((c) => c.passes > 0).length),
+    infrastructureErrors: results.length - scoredResults.length,
+  };
+
+  if (approach.maxRepairRounds) {
+    const repaired = scoredResults.map((result) => result.metadata as Record<string, unknown>);
+    const attempts = repaired.map((m) => m.repairAttempts).filter((a): a is number => typeof a === "number");
+    const successes = repaired
+      .map((m) => m.attemptsToSuccess)
+      .filter((a): a is number => typeof a === "number");
+
+    summary.repair = {
+      maxRounds: approach.maxRepairRounds,
+      successRate: repaired.length > 0 ? successes.length / repaired.length : 0,
+      meanAttempts: mean(attempts),
+      meanAttemptsToSuccess: successes.length > 0 ? mean(successes) : null,
+    };
+  }
+
+  return summary;
+}
+
+/**
+ * Whether a row's task failed on an LLM call after all retries.
+ */
+function isInfrastructureError(result: EvalRowResult): boolean {
+  return (result.metadata as EvalDatumMetadata | undefined)?.outcome === "infrastructure_error";
+}
+
+/**
+ * Sum token usage and estimated cost over an experiment's rows.
+ */
+function summarizeUsage(results: EvalRowResult[], passingCases: number): UsageSummary {
+  const usages = results
+    .map((result) => (result.metadata as { usage?: GenerationUsage } | undefined)?.usage)
+    .filter((usage): usage is GenerationUsage => usage !== undefined);
+
+  const total = usages.reduce(addUsage, {
+    generations: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    estimatedCost: 0,
+  });
+
+  return {
+    promptTokens: total.promptTokens,
+    completionTokens: total.completionTokens,
+    meanLatencyMs: mean(usages.map((usage) => usage.latencyMs)),
+    totalCost: total.estimatedCost,
+    costPerPassingCase: total.estimatedCost !== null && passingCases > 0
+      ? total.estimatedCost / passingCases
+      : null,
   };
 }
 
 /**
- * Run a complete evaluation comparing all three approaches.
- * Executes sequentially with cleanup between each to avoid resource conflicts.
+ * Combine Braintrust results with stored score details into case reports.
  */
-export async function runEvaluation(config: EvaluationConfig): Promise<void> {
-  const { projectName, evalCases } = config;
+function buildCaseReports(results: EvalRowResult[], scoredRows: Map<string, ScoredRow>): CaseReport[] {
+  return results.map((result) => {
+    const metadata = result.metadata as EvalDatumMetadata & Record<string, unknown>;
+    const scored = scoredRows.get(rowKey(metadata));
+    return {
+      caseName: metadata.caseName,
+      sampleIndex: metadata.sampleIndex,
+      input: result.input,
+      output: result.output,
+      turns: metadata.turns?.map(({ turn, prompt, code }) => ({
+        turn,
+        prompt,
+        output: code,
+        scores: scored?.turns?.find((scoredTurn) => scoredTurn.turn === turn)?.scores ?? null,
+      })),
+      metadata,
+      scores: scored?.scores ?? null,
+      executionError: scored?.executionResult?.success === false ? scored.executionResult.error : undefined,
+      infrastructureError: metadata.infrastructureError,
+      error: result.error ? (result.error instanceof Error ? result.error.message : String(result.error)) : undefined,
+    };
+  });
+}
+
+/**
+ * Print sample statistics and usage for each approach, any cleanup actions
+ * that failed, and why cleanup was skipped (if it was).
+ */
+function printSummary(
+  summaries: ApproachSummary[],
+  cleanupFailures: CleanupFailureReport[],
+  cleanupSkipped: Set<string>
+): void {
+  console.log("\n--- Summary (CompoundCodeGenScore) ---");
+  for (const { experimentName, stats, infrastructureErrors } of summaries) {
+    const excluded = infrastructureErrors > 0 ? `, ${infrastructureErrors} infrastructure error(s) excluded` : "";
+    // With one sample per case, pass@k is pass@1
+    const passAtK = stats.k > 1 ? `pass@${stats.k} ${stats.passAtK.toFixed(2)}, ` : "";
+    console.log(
+      `${experimentName}: pass@1 ${stats.passAt1.toFixed(2)}, ${passAtK}` +
+        `mean ${stats.meanScore.toFixed(2)} ± ${stats.stdDevScore.toFixed(2)} (${stats.samples} samples${excluded})`
+    );
+  }
+
+  for (const { experimentName, repair } of summaries) {
+    if (!repair) continue;
+    const toSuccess = repair.meanAttemptsToSuccess === null ? "-" : repair.meanAttemptsToSuccess.toFixed(2);
+    console.log(
+      `${experimentName}: checks passed within ${repair.maxRounds + 1} attempt(s) ${(repair.successRate * 100).toFixed(0)}%, ` +
+        `mean attempts-to-success ${toSuccess}`
+    );
+  }
+
+  console.log("\n--- Usage ---");
+  for (const { experimentName, usage } of summaries) {
+    const totalCost = usage.totalCost === null ? "unknown" : `$${usage.totalCost.toFixed(4)}`;
+    const perPass = usage.costPerPassingCase === null ? "-" : `$${usage.costPerPassingCase.toFixed(4)}`;
+    console.log(
+      `${experimentName}: ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens, ` +
+        `mean latency ${(usage.meanLatencyMs / 1000).toFixed(1)}s, cost ${totalCost}, cost per passing case ${perPass}`
+    );
+  }
+
+  if (cleanupFailures.length > 0) {
+    console.log(`\n--- Cleanup Failures (${cleanupFailures.length}) ---`);
+    for (const { caseName, experimentName, action, target, error } of cleanupFailures) {
+      const experiment = experimentName ? ` [${experimentName}]` : "";
+      console.log(`${caseName}${experiment}: ${action} ${target} failed: ${error}`);
+    }
+  }
+  for (const reason of cleanupSkipped) {
+    console.log(`\nCleanup skipped: ${reason}`);
+  }
+}
+
+/**
+ * Get the name of a run-level prompt template, registering it first if it
+ * is a PromptTemplate object that isn't registered yet.
+ */
+function resolvePromptTemplateName(template: string | PromptTemplate | undefined): string | undefined {
+  if (template === undefined || typeof template === "string") return template;
+  if (!listPromptTemplates().includes(template)) {
+    registerPromptTemplate(template);
+  }
+  return template.name;
+}
+
+/**
+ * Run a complete evaluation comparing the configured approaches.
+ * Each approach runs once per generation model, as its own experiment.
+ * Experiments run sequentially. By default rows also run one at a time with
+ * cleanup between them; with database isolation, each row gets its own copy
+ * of the databases it uses and rows can run concurrently.
+ *
+ * @returns Sample statistics for each approach x model experiment, in run order
+ * @throws Error if two eval cases have the same name
+ */
+export async function runEvaluation(config: EvaluationConfig): Promise<ApproachSummary[]> {
+  const {
+    projectName,
+    evalCases,
+    samples = 1,
+    passThreshold = 1,
+    concurrency = 1,
+    isolateDatabases = concurrency > 1,
+  } = config;
+  const prices = { ...DEFAULT_MODEL_PRICES, ...config.prices };
+  // One wrapped client per run, so the rate limit covers every row and experiment
+  const client = withRetries(config.generationClient ?? createProxyClient(), config.retry);
+  const promptTemplate = resolvePromptTemplateName(config.promptTemplate);
+
+  // Rows are saved and summarized by case name, so a duplicate would overwrite another case
+  const caseNames = new Set<string>();
+  for (const { name } of evalCases) {
+    if (caseNames.has(name)) {
+      throw new Error(`[Run] Duplicate eval case name "${name}". Case names must be unique within a run.`);
+    }
+    caseNames.add(name);
+  }
+
+  // Fail on unknown prompt templates before any cleanup or generation runs
+  for (const evalCase of evalCases) {
+    getPromptTemplate(selectPromptTemplate(evalCase, promptTemplate));
+  }
+  const approaches = resolveApproaches(config.approaches);
+  const models = (config.generationModels ?? [GENERATION_MODEL]).map(resolveGenerationModel);
+  const reporters = resolveReporters(config.reporters);
+  const sendToBraintrust = reporters.some((reporter) => reporter.sendsToBraintrust);
+  const startedAt = new Date().toISOString();
+  const cache = createGenerationCache(config.cache);
+  const runState = openRunState<CompletedRow>(projectName, startedAt, config.runState);
 
   console.log(`\nRunning Evaluation: ${projectName}\n`);
-  console.log("Results will be logged to the Braintrust dashboard.");
-  console.log("View your experiments at: https://www.braintrust.dev\n");
+  console.log(`Run ID: ${runState.runId}${runState.resumed ? ` (resuming run started ${runState.startedAt})` : ""}`);
+  if (sendToBraintrust) {
+    console.log("Results will be logged to the Braintrust dashboard.");
+    console.log("View your experiments at: https://www.braintrust.dev\n");
+  }
+  console.log(`Reporters: ${reporters.map((r) => r.name).join(", ")}`);
   console.log(`Model Configuration:`);
-  console.log(`   Generation: ${GENERATION_MODEL}`);
+  console.log(`   Generation: ${models.map(modelLabel).join(", ")} (via ${client.name})`);
   console.log(`   Scoring:    ${SCORING_MODEL}\n`);
+  console.log(`Approaches: ${approaches.map((a) => a.name).join(", ")}`);
+  console.log(`Prompt template: ${promptTemplate ?? DEFAULT_PROMPT_TEMPLATE}`);
+  console.log(`Samples per case: ${samples}`);
+  console.log(`Concurrency: ${concurrency}${isolateDatabases ? " (isolated databases)" : ""}`);
+  console.log(`Skill files: ${config.skills?.root ? `relative to ${config.skills.root}` : "relative to each YAML file"}${config.skills?.strict ? " (strict)" : ""}`);
+  console.log(`Generation cache: ${cache.mode}${cache.mode !== "off" ? ` (${cache.dir})` : ""}\n`);
+
+  // Convert eval cases to Braintrust data format (one row per sample)
+  const evalData = evalCases.flatMap((evalCase, index) =>
+    evalCaseToData(evalCase, index, { samples, promptTemplate, promptVariables: config.promptVariables, skills: config.skills })
+  );
 
-  // Convert eval cases to Braintrust data format
-  const evalData = evalCases.map(evalCaseToData);
+  // pass@k uses the largest sample count so per-case overrides are included
+  const k = Math.max(...evalData.map((datum) => datum.metadata.sampleCount), 1);
+
+  // Failed cleanup actions (and why any were skipped) are collected for the run summary
+  const cleanupFailures: CleanupFailureReport[] = [];
+  const cleanupSkipped = new Set<string>();
+  const cleanUp = async (evalCase: EvalCase, experimentName?: string, redirects?: DatabaseRedirects) => {
+    const cleanup = redirects ? redirectCleanup(evalCase.cleanup, redirects) : evalCase.cleanup;
+    for (const { action, target, status, message } of await runCleanup(cleanup)) {
+      if (status === "failed") {
+        cleanupFailures.push({ caseName: evalCase.name, experimentName, action, target, error: message });
+      } else if (status === "skipped") {
+        cleanupSkipped.add(message);
+      }
+    }
+  };
 
   // Create cleanup function for all eval cases
   const cleanupAll = async () => {
     for (const evalCase of evalCases) {
-      await runCleanup(evalCase.cleanup);
+      await cleanUp(evalCase);
     }
   };
 
-  // Initial cleanup
+  // Drop isolated databases left behind by rows that were running when the run stopped
+  const releaseNamespace = async (redirects: DatabaseRedirects) => {
+    await dropIsolatedNamespace(redirects);
+    await runState.removePendingNamespace(redirects);
+  };
+  for (const redirects of runState.pendingNamespaces()) {
+    await releaseNamespace(redirects);
+  }
+  // ...and revert setups of rows that were running (before the initial cleanup, which can't see them)
+  for (const applied of runState.pendingSetups()) {
+    await revertSetup(applied);
+    await runState.removePendingSetup(applied);
+  }
+
+  // Initial cleanup (also undoes whatever an interrupted run's last rows left behind)
   console.log("Running initial cleanup...\n");
   await cleanupAll();
 
-  // Create scorers for each eval case
-  // Note: Braintrust expects a single scorer, but we return an array of scores
-  const scorers = evalCases.map((evalCase) => createEvalScorer(evalCase));
-
-  console.log("--- Evaluation 1: Baseline ---");
-  await Eval(projectName, {
-    experimentName: "Baseline",
-    update: true,
-    data: () => evalData,
-    task: async (input: TaskInput, hooks) => taskBaseline(input, hooks),
-    scores: scorers,
-  });
+  const summaries: ApproachSummary[] = [];
+  const experimentReports: ExperimentReport[] = [];
 
-  await cleanupAll();
+  // Run every approach x model combination
+  const combinations = models.flatMap((model) => approaches.map((approach) => ({ model, approach })));
 
-  console.log("\n--- Evaluation 2: With Documentation ---");
-  await Eval(projectName, {
-    experimentName: "With Docs",
-    update: true,
-    data: () => evalData,
-    task: async (input: TaskInput, hooks) => taskWithDocs(input, hooks),
-    scores: scorers,
-  });
+  for (const [index, { model, approach }] of combinations.entries()) {
+    // Include the model in experiment names so runs with different models stay apart
+    const experimentName = `${approach.experimentName} [${modelLabel(model)}]`;
 
-  await cleanupAll();
+    // A single scorer runs every assertion for the row it receives
+    // Note: Braintrust expects a single score, but we return an array of scores
+    const scoredRows = new Map<string, ScoredRow>();
+    // What each row's setup created, by row key (isolated rows are covered by dropping their databases)
+    const appliedSetups = new Map<string, AppliedSetup>();
+    const revertRowSetup = async (metadata: EvalDatumMetadata) => {
+      const applied = appliedSetups.get(rowKey(metadata));
+      if (!applied) return;
+      await revertSetup(applied);
+      appliedSetups.delete(rowKey(metadata));
+      await runState.removePendingSetup(applied);
+    };
+    const scorers = [createEvalScorer(evalCases, scoredRows, {
+      releaseNamespace,
+      revertSetup: revertRowSetup,
+      cleanUp: (evalCase, redirects) => cleanUp(evalCase, experimentName, redirects),
+      recordRow: (row) => runState.recordRow(experimentName, stateKey(row.result.metadata as EvalDatumMetadata), row),
+    })];
 
-  console.log("\n--- Evaluation 3: With Skill ---");
-  await Eval(projectName, {
-    experimentName: "With Skill",
-    update: true,
-    data: () => evalData,
-    task: async (input: TaskInput, hooks) => taskWithSkill(input, hooks),
-    scores: scorers,
-  });
+    // Rows scored by an earlier attempt at this run are reported from the run state
+    const completedRows = runState.completedRows(experimentName);
+    const remainingData = evalData.filter((datum) => !completedRows.has(stateKey(datum.metadata)));
 
-  // Final cleanup
-  await cleanupAll();
+    console.log(`\n--- Evaluation ${index + 1}: ${experimentName} ---`);
+    if (remainingData.length < evalData.length) {
+      console.log(`[Run] ${evalData.length - remainingData.length} of ${evalData.length} row(s) already scored, skipping them`);
+    }
+
+    const result = remainingData.length === 0 ? undefined : await Eval(projectName, {
+      experimentName,
+      update: true,
+      data: () => remainingData,
+      task: async (input: TaskInput, hooks) => {
+        const metadata = hooks.metadata as unknown as EvalDatumMetadata;
+        const evalCase = evalCases[metadata.caseIndex];
+
+        let redirects: DatabaseRedirects | undefined;
+        if (isolateDatabases && evalCase) {
+          redirects = await createIsolatedNamespace(evalCase, `${startedAt}:${index}:${rowKey(metadata)}`);
+          metadata.isolatedDatabases = redirects;
+          await runState.addPendingNamespace(redirects);
+        }
+
+        const cleanUpRow = async () => {
+          if (evalCase) await cleanUp(evalCase, experimentName, redirects);
+        };
+        const check = approach.maxRepairRounds
+          ? createRepairCheck(evalCase, hooks.expected, cleanUpRow, redirects)
+          : undefined;
+        try {
+          if (evalCase?.setup) {
+            const setup = redirects ? redirectSetup(evalCase.setup, redirects) : evalCase.setup;
+            const applied = await runSetup(setup, evalCase.sourceFile ? dirname(evalCase.sourceFile) : process.cwd());
+            // Saved before the code runs, so a resumed run can revert it if this one dies
+            if (applied && !redirects) {
+              appliedSetups.set(rowKey(metadata), applied);
+              await runState.addPendingSetup(applied);
+            }
+          }
+          return await taskWithApproach(approach, input, hooks, { model, cache, check, prices, client });
+        } catch (error) {
+          // The scorer skips infrastructure errors and doesn't run for failed tasks, so drop the copies
+          // (or revert the setup) here
+          if (redirects) {
+            await releaseNamespace(redirects);
+          } else {
+            await revertRowSetup(metadata);
+          }
+
+          // A provider failure, unreadable skill or failed setup isn't the approach's fault: record it instead of failing the row
+          if (error instanceof LLMCallError || error instanceof SkillFileError || error instanceof SetupError) {
+            console.warn(`[${experimentName}] Infrastructure error for ${metadata.caseName}: ${error.message}`);
+            metadata.outcome = "infrastructure_error";
+            metadata.infrastructureError = error.message;
+            return "";
+          }
+          throw error;
+        }
+      },
+      scores: scorers,
+      // Without isolation rows share MongoDB resources, so they must run one at a time
+      maxConcurrency: isolateDatabases ? concurrency : 1,
+      metadata: {
+        approach: approach.name,
+        generationModel: model.model,
+        generationModelLabel: modelLabel(model),
+        temperature: model.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: model.maxTokens,
+        topP: model.topP,
+      },
+    }, {
+      // Without a Braintrust reporter, run locally and only build a local summary
+      noSendLogs: !sendToBraintrust,
+    });
+
+    // Combine saved and new rows in data order
+    const ranRows: EvalRowResult[] = result?.results ?? [];
+    const newResults = new Map(ranRows.map((row) => [stateKey(row.metadata as EvalDatumMetadata), row]));
+    const results = evalData.flatMap((datum): EvalRowResult[] => {
+      const completed = completedRows.get(stateKey(datum.metadata));
+      if (!completed) {
+        const row = newResults.get(stateKey(datum.metadata));
+        return row ? [row] : [];
+      }
+      // The case may sit at a different index if the resumed run loads cases differently
+      const metadata = { ...(completed.result.metadata as EvalDatumMetadata), caseIndex: datum.metadata.caseIndex };
+      scoredRows.set(rowKey(metadata), completed.scored);
+      return [{ ...completed.result, metadata }];
+    });
+
+    const experimentUrl = result?.summary.experimentUrl ?? runState.experimentUrl(experimentName);
+    const savedRows = runState.completedRows(experimentName);
+    const unscored = evalData.filter((datum) => !savedRows.has(stateKey(datum.metadata))).length;
+    if (unscored > 0) {
+      console.log(`[Run] ${unscored} row(s) not scored; resume run ${runState.runId} to retry them`);
+    } else {
+      await runState.completeExperiment(experimentName, experimentUrl);
+    }
+
+    const summary = summarizeApproach(approach, model, experimentName, results, k, passThreshold);
+    summaries.push(summary);
+
+    const experimentReport: ExperimentReport = {
+      projectName,
+      experimentName,
+      summary,
+      cases: buildCaseReports(results, scoredRows),
+      experimentUrl,
+    };
+    experimentReports.push(experimentReport);
+    for (const reporter of reporters) {
+      await reporter.onExperimentEnd?.(experimentReport);
+    }
+
+    // Cleanup after each experiment so the next one starts from a clean state
+    // (isolated rows never touch the shared databases)
+    if (result && !isolateDatabases) {
+      await cleanupAll();
+    }
+  }
+
+  printSummary(summaries, cleanupFailures, cleanupSkipped);
+
+  const runReport: RunReport = {
+    projectName,
+    runId: runState.runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    experiments: experimentReports,
+    cleanupFailures,
+  };
+  for (const reporter of reporters) {
+    await reporter.onRunEnd?.(runReport);
+  }
 
   console.log("\nAll evaluations complete!");
+  return summaries;
 }
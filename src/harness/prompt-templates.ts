@@ -0,0 +1,238 @@
+/**
+ * Prompt template registry.
+ *
+ * A prompt template holds the system prompts approaches send to the model,
+ * with {{variable}} placeholders for things like the language, driver and
+ * connection string variable. Templates are selected by name per run
+ * (EvaluationConfig.promptTemplate) or per eval case (promptTemplate in
+ * YAML), so different target code styles can be evaluated without editing
+ * harness code.
+ *
+ * Built-in templates:
+ * 1. commonjs: Node.js with CommonJS modules (the default for JavaScript cases)
+ * 2. esm: Node.js with ES modules
+ * 3. typescript: TypeScript with ES modules (the default for TypeScript cases)
+ * 4. python: Python with PyMongo (the default for Python cases)
+ */
+
+import type { CodeLanguage } from "../schemas/evalCase.js";
+import type { TaskInput } from "./types.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Named system prompts with {{variable}} placeholders.
+ */
+export interface PromptTemplate {
+  /** Registry name used to select the template */
+  name: string;
+  /** Short description shown by the CLI */
+  description?: string;
+  /** Language of the code the template asks for (default: javascript) */
+  language?: CodeLanguage;
+  /** System prompt for approaches without a skill */
+  system: string;
+  /** System prompt for skill approaches. {{skill}} is replaced with the skill content */
+  skillSystem: string;
+  /** Default values for the template's variables */
+  variables?: Record<string, string>;
+}
+
+/** A template after variables have been filled in */
+export interface RenderedPromptTemplate {
+  name: string;
+  variables: Record<string, string>;
+  system: string;
+  /** Renders the skill system prompt for the given skill content */
+  skillSystem(skillContent: string): string;
+}
+
+// =============================================================================
+// BUILT-IN TEMPLATES
+// =============================================================================
+
+/**
+ * Variables shared by the built-in templates. Set driver to pin a version,
+ * e.g. "MongoDB Node.js Driver 6.10".
+ */
+const BASE_VARIABLES = {
+  driver: "MongoDB driver",
+  connectionEnvVar: "MONGODB_URI",
+};
+
+const JS_REQUIREMENTS = `- Use async/await
+- Include error handling
+- Get the MongoDB connection string from the {{connectionEnvVar}} environment variable (process.env.{{connectionEnvVar}})
+- Do NOT hardcode connection strings like "mongodb://localhost:27017"
+- Return only executable code
+- Do NOT wrap code in markdown code blocks or backticks
+- No explanations or comments outside the code`;
+
+/**
+ * Build a template from its requirements list, using the standard
+ * baseline and skill framing.
+ */
+function templateWithRequirements(
+  name: string,
+  description: string,
+  requirements: string,
+  variables: Record<string, string>,
+  language: CodeLanguage = "javascript"
+): PromptTemplate {
+  return {
+    name,
+    description,
+    language,
+    system: `You are a helpful coding assistant. Generate {{language}} code using the {{driver}}.
+
+Requirements:
+${requirements}`,
+    skillSystem: `You are a MongoDB expert assistant. Generate {{language}} code using the {{driver}}.
+
+Requirements:
+${requirements}
+
+{{skill}}`,
+    variables,
+  };
+}
+
+export const commonJsTemplate = templateWithRequirements(
+  "commonjs",
+  "Node.js code with CommonJS modules",
+  `- Use CommonJS syntax (require, not import)
+${JS_REQUIREMENTS}`,
+  { ...BASE_VARIABLES, language: "Node.js" }
+);
+
+export const esmTemplate = templateWithRequirements(
+  "esm",
+  "Node.js code with ES modules",
+  `- Use ES module syntax (import, not require)
+${JS_REQUIREMENTS}`,
+  { ...BASE_VARIABLES, language: "Node.js" }
+);
+
+export const typeScriptTemplate = templateWithRequirements(
+  "typescript",
+  "TypeScript code with ES modules",
+  `- Use TypeScript with type annotations
+- Use ES module syntax (import, not require)
+${JS_REQUIREMENTS}`,
+  { ...BASE_VARIABLES, language: "TypeScript" },
+  "typescript"
+);
+
+export const pythonTemplate = templateWithRequirements(
+  "python",
+  "Python code with PyMongo",
+  `- Use the synchronous PyMongo MongoClient
+- Include error handling
+- Get the MongoDB connection string from the {{connectionEnvVar}} environment variable (os.environ["{{connectionEnvVar}}"])
+- Do NOT hardcode connection strings like "mongodb://localhost:27017"
+- Return a complete script that does the work when run with python3
+- Do NOT wrap code in markdown code blocks or backticks
+- No explanations or comments outside the code`,
+  { ...BASE_VARIABLES, driver: "PyMongo driver", language: "Python" },
+  "python"
+);
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Replace {{variable}} placeholders in a template string.
+ *
+ * @throws Error if a placeholder has no value
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Prompt template variable "${name}" has no value`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Render a prompt template with the given variables (merged over the
+ * template's defaults).
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: Record<string, string> = {}
+): RenderedPromptTemplate {
+  const merged = { ...template.variables, ...variables };
+  return {
+    name: template.name,
+    variables: merged,
+    system: renderTemplate(template.system, merged),
+    // Substitution is a single pass, so placeholders inside the skill content are left alone
+    skillSystem: (skillContent) => renderTemplate(template.skillSystem, { ...merged, skill: skillContent }),
+  };
+}
+
+/**
+ * Render the template selected by a task input (or the default template).
+ */
+export function renderInputTemplate(input: TaskInput): RenderedPromptTemplate {
+  return renderPromptTemplate(getPromptTemplate(input.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE), input.promptVariables);
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const templateRegistry = new Map<string, PromptTemplate>();
+
+/** Template used when neither the run nor the eval case selects one */
+export const DEFAULT_PROMPT_TEMPLATE = "commonjs";
+
+/** Default template for each eval case language */
+export const DEFAULT_PROMPT_TEMPLATES: Record<CodeLanguage, string> = {
+  javascript: DEFAULT_PROMPT_TEMPLATE,
+  typescript: "typescript",
+  python: "python",
+};
+
+/**
+ * Register a prompt template so it can be selected by name.
+ *
+ * @throws Error if a template with the same name is already registered
+ */
+export function registerPromptTemplate(template: PromptTemplate): void {
+  if (templateRegistry.has(template.name)) {
+    throw new Error(`Prompt template "${template.name}" is already registered`);
+  }
+  templateRegistry.set(template.name, template);
+}
+
+/**
+ * Look up a registered prompt template by name.
+ *
+ * @throws Error if no template is registered under that name
+ */
+export function getPromptTemplate(name: string): PromptTemplate {
+  const template = templateRegistry.get(name);
+  if (!template) {
+    const available = [...templateRegistry.keys()].join(", ");
+    throw new Error(`Unknown prompt template "${name}". Available prompt templates: ${available}`);
+  }
+  return template;
+}
+
+/**
+ * List all registered prompt templates in registration order.
+ */
+export function listPromptTemplates(): PromptTemplate[] {
+  return [...templateRegistry.values()];
+}
+
+registerPromptTemplate(commonJsTemplate);
+registerPromptTemplate(esmTemplate);
+registerPromptTemplate(typeScriptTemplate);
+registerPromptTemplate(pythonTemplate);
@@ -0,0 +1,280 @@
+/**
+ * Harness types for the code generation evaluation framework.
+ *
+ * An approach describes one way of prompting the generation model
+ * (e.g., baseline, with documentation, with skill). Approaches are
+ * composed of context loaders (which fetch extra material for a case)
+ * and a prompt builder (which turns the input plus loaded context into
+ * the system and user messages sent to the model).
+ */
+
+import type { EvalCase } from "../schemas/evalCase.js";
+import type { SampleStats } from "../utils/sampleStats.js";
+import type { Reporter } from "../reporters/types.js";
+import type { GenerationCache, GenerationCacheOptions } from "../utils/generation-cache.js";
+import type { RunStateOptions } from "../utils/run-state.js";
+import type { SkillFileOptions } from "../utils/read-skill-file.js";
+import type { ModelPriceTable } from "../utils/generation-usage.js";
+import type { LLMClient } from "../clients/types.js";
+import type { RetryOptions } from "../clients/retry.js";
+import type { PromptTemplate } from "./prompt-templates.js";
+
+// =============================================================================
+// TASK TYPES
+// =============================================================================
+
+/** Input structure for evaluation task functions (derived from EvalCase.input) */
+export interface TaskInput {
+  /** The prompt to send to the LLM (the first turn of a multi-turn case) */
+  prompt: string;
+  /** Later user turns of a multi-turn case, each sent after the model's previous answer */
+  followUps?: string[];
+  /** URL to fetch documentation from (for "With Docs" approach) */
+  docLink?: string;
+  /** Path(s) to skill file(s) (for "With Skill" approach) - can be a single path or array */
+  skillFiles?: string | string[];
+  /** Directory relative skillFiles are resolved against (default: the working directory) */
+  skillBaseDir?: string;
+  /** Fail the row instead of sending placeholder content when a skill file can't be read */
+  strictSkills?: boolean;
+  /** Name of the prompt template for system prompts (default: DEFAULT_PROMPT_TEMPLATE) */
+  promptTemplate?: string;
+  /** Values for the prompt template's variables (merged over its defaults) */
+  promptVariables?: Record<string, string>;
+}
+
+// =============================================================================
+// APPROACH TYPES
+// =============================================================================
+
+/**
+ * Context produced by a context loader.
+ *
+ * - content: Text made available to the prompt builder
+ * - metadata: Optional details logged to Braintrust (e.g., truncation info)
+ */
+export interface LoadedContext {
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Loads extra context for an eval case (e.g., documentation, skill files).
+ *
+ * Loaders return null when the input does not provide what they need
+ * (e.g., no docLink), leaving it to the approach to decide how to proceed.
+ */
+export interface ContextLoader {
+  /** Key under which the loaded context is passed to the prompt builder */
+  name: string;
+  /** Load context for the given input */
+  load(input: TaskInput): Promise<LoadedContext | null>;
+}
+
+/**
+ * Messages built by an approach for a single generation.
+ */
+export interface ApproachPrompt {
+  /** System prompt sent to the model */
+  system: string;
+  /** User prompt sent to the model */
+  user: string;
+  /** Optional details logged to Braintrust (e.g., the rendered prompt) */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A code generation approach to evaluate.
+ *
+ * Each approach runs as its own Braintrust experiment.
+ */
+export interface Approach {
+  /** Registry key used to select the approach (e.g., "with-docs") */
+  name: string;
+  /** Braintrust experiment name (e.g., "With Docs") */
+  experimentName: string;
+  /** Short description shown in listings */
+  description?: string;
+  /** Loaders run before building the prompt, in order */
+  contextLoaders?: ContextLoader[];
+  /**
+   * Build the prompt for a generation.
+   *
+   * @param input - The task input for the eval case
+   * @param context - Loaded context keyed by loader name (missing if the loader returned null)
+   */
+  buildPrompt(input: TaskInput, context: Record<string, LoadedContext>): ApproachPrompt;
+  /**
+   * Self-repair rounds after the first attempt (default: 0). When set, failed
+   * execution and syntax/semantic checks are sent back to the model.
+   */
+  maxRepairRounds?: number;
+}
+
+// =============================================================================
+// MODEL TYPES
+// =============================================================================
+
+/**
+ * A generation model and the parameters to call it with.
+ */
+export interface GenerationModelConfig {
+  /** Model name passed to the AI Proxy (e.g., "gpt-4o") */
+  model: string;
+  /** Label used in experiment names and metadata (defaults to the model name) */
+  label?: string;
+  /** Sampling temperature (default: 0.2) */
+  temperature?: number;
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Nucleus sampling probability */
+  topP?: number;
+}
+
+/**
+ * Result of checking generated code during self-repair.
+ */
+export interface RepairFeedback {
+  /** Whether the code passed every check */
+  passed: boolean;
+  /** Human-readable problems to send back to the model */
+  problems: string[];
+}
+
+/**
+ * Options for a single task function call.
+ */
+export interface TaskOptions {
+  /** Generation model (defaults to GENERATION_MODEL) */
+  model?: string | GenerationModelConfig;
+  /** Record/replay cache for completions */
+  cache?: GenerationCache;
+  /** Checks generated code for self-repair approaches */
+  check?: (code: string) => Promise<RepairFeedback>;
+  /** Prices used to estimate generation cost (defaults to DEFAULT_MODEL_PRICES) */
+  prices?: ModelPriceTable;
+  /** Client used for generation (defaults to the Braintrust AI proxy) */
+  client?: LLMClient;
+}
+
+// =============================================================================
+// EVALUATION CONFIG
+// =============================================================================
+
+/** Configuration for running an evaluation */
+export interface EvaluationConfig {
+  /** Braintrust project name */
+  projectName: string;
+  /** Array of eval cases loaded from YAML */
+  evalCases: EvalCase[];
+  /**
+   * Approaches to run, in order. Each entry is either a registered approach
+   * name or an Approach object. Defaults to baseline, with-docs and with-skill.
+   */
+  approaches?: Array<string | Approach>;
+  /**
+   * Models used for code generation. Every approach runs once per model.
+   * Each entry is a model name or a GenerationModelConfig. Defaults to GENERATION_MODEL.
+   */
+  generationModels?: Array<string | GenerationModelConfig>;
+  /**
+   * Completions to generate per eval case and approach (default: 1).
+   * An eval case's own `samples` setting takes precedence.
+   */
+  samples?: number;
+  /** Minimum CompoundCodeGenScore for a sample to count as passing (default: 1) */
+  passThreshold?: number;
+  /**
+   * Where to report results. Each entry is a reporter name ("braintrust",
+   * "local") or a Reporter object. Defaults to Braintrust only. Results are
+   * only sent to Braintrust when a Braintrust reporter is included.
+   */
+  reporters?: Array<string | Reporter>;
+  /** Record/replay cache for generations (default: GENERATION_CACHE env var, or off) */
+  cache?: GenerationCacheOptions;
+  /**
+   * Run ID and resume settings. Progress is saved after every scored row;
+   * resuming a run skips the rows it already scored.
+   */
+  runState?: RunStateOptions;
+  /** Rows to run concurrently within an experiment (default: 1) */
+  concurrency?: number;
+  /**
+   * Run each row against its own copy of the databases it references, so rows
+   * can't collide on index names or see each other's data.
+   * Defaults to true when concurrency > 1.
+   */
+  isolateDatabases?: boolean;
+  /** Model prices for cost estimates, merged over DEFAULT_MODEL_PRICES */
+  prices?: ModelPriceTable;
+  /**
+   * Prompt template for every eval case that doesn't select its own
+   * (default: DEFAULT_PROMPT_TEMPLATE). A name or a PromptTemplate object.
+   */
+  promptTemplate?: string | PromptTemplate;
+  /** Prompt template variables; an eval case's promptVariables take precedence */
+  promptVariables?: Record<string, string>;
+  /**
+   * Client used for generation (defaults to the Braintrust AI proxy).
+   * Use createFixtureClient() to run without network access. The client is
+   * wrapped with the retry settings, so it shouldn't retry on its own.
+   */
+  generationClient?: LLMClient;
+  /**
+   * Retries, backoff and requests-per-minute limit for generation calls
+   * (default: DEFAULT_RETRY_OPTIONS, no rate limit). Rows whose calls still
+   * fail are recorded as infrastructure errors and left out of the statistics.
+   */
+  retry?: RetryOptions;
+  /**
+   * Skills root and strict mode for skill files. Relative skill paths
+   * resolve against the root, or else the eval case's YAML file directory.
+   */
+  skills?: SkillFileOptions;
+}
+
+// =============================================================================
+// EVALUATION SUMMARY
+// =============================================================================
+
+/** Summary of one approach's experiment */
+export interface ApproachSummary {
+  /** Registry name of the approach */
+  approach: string;
+  /** Braintrust experiment name */
+  experimentName: string;
+  /** Label of the generation model used */
+  model: string;
+  /** pass@k, mean and standard deviation of CompoundCodeGenScore */
+  stats: SampleStats;
+  /** Self-repair statistics (only for approaches with maxRepairRounds) */
+  repair?: RepairSummary;
+  /** Token usage, latency and estimated cost of all generations */
+  usage: UsageSummary;
+  /** Samples left out of stats because an LLM call failed after all retries or a skill file couldn't be read */
+  infrastructureErrors: number;
+}
+
+/** Token usage and cost statistics for one experiment */
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  /** Mean total generation latency per sample (including repair rounds) */
+  meanLatencyMs: number;
+  /** Estimated cost in USD (null if any generation's model has no price) */
+  totalCost: number | null;
+  /** Estimated cost divided by the number of cases with a passing sample (null if none passed or cost is unknown) */
+  costPerPassingCase: number | null;
+}
+
+/** Self-repair statistics for one experiment */
+export interface RepairSummary {
+  /** Repair rounds allowed after the first attempt */
+  maxRounds: number;
+  /** Fraction of samples whose code passed its checks within the allowed attempts */
+  successRate: number;
+  /** Mean number of attempts made (including the first) */
+  meanAttempts: number;
+  /** Mean attempts needed by samples that passed (null if none passed) */
+  meanAttemptsToSuccess: number | null;
+}
@@ -16,26 +16,86 @@
 // Re-export harness for use in other evaluation scripts
 export {
   runEvaluation,
+  taskWithApproach,
+  resolveGenerationModel,
   taskBaseline,
   taskWithDocs,
   taskWithSkill,
   generationClient,
-  scoringClient,
   GENERATION_MODEL,
+  DEFAULT_TEMPERATURE,
   SCORING_MODEL,
+  registerApproach,
+  getApproach,
+  listApproaches,
+  resolveApproaches,
+  withSelfRepair,
+  DEFAULT_APPROACHES,
+  DEFAULT_REPAIR_ROUNDS,
   type TaskInput,
   type EvaluationConfig,
+  type ApproachSummary,
+  type GenerationModelConfig,
+  type TaskOptions,
+  type RepairFeedback,
+  type RepairSummary,
+  type UsageSummary,
+  type Approach,
+  type ApproachPrompt,
+  type ContextLoader,
+  type LoadedContext,
 } from "./harness/index.js";
 
+// Re-export built-in approaches and context loaders for composing custom approaches
+export {
+  baselineApproach,
+  withDocsApproach,
+  withSkillApproach,
+  withDocsAndSkillApproach,
+  docsLoader,
+  skillLoader,
+  buildSkillSystemPrompt,
+  buildDocsUserPrompt,
+  buildRepairPrompt,
+} from "./harness/approaches.js";
+
+// Re-export prompt templates
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATES,
+  registerPromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  renderPromptTemplate,
+  renderTemplate,
+  commonJsTemplate,
+  esmTemplate,
+  typeScriptTemplate,
+  pythonTemplate,
+  type PromptTemplate,
+  type RenderedPromptTemplate,
+} from "./harness/prompt-templates.js";
+
 // Re-export schemas
 export {
   EvalCaseSchema,
   EvalCasesSchema,
+  EvalCaseFileSchema,
+  MatrixSchema,
   type EvalCase,
   type EvalCaseInput,
   type EvalCaseExpected,
+  type EvalCaseExecution,
+  type EvalCaseTurn,
+  type EvalCaseSetup,
   type EvalCaseCleanup,
+  type CleanupAction,
+  type EvalCaseFile,
+  type EvalCaseFileDefaults,
+  type EvalCaseMatrix,
   type Pattern,
+  type PatternMatchMode,
+  type CodeLanguage,
 } from "./schemas/evalCase.js";
 
 // Re-export scorers
@@ -43,17 +103,153 @@ export {
   allScorers,
   isValidJS,
   hasAsyncAwait,
+  isValidPython,
+  typeChecks,
+  typeCheckCode,
   mustContain,
   mustNotContain,
+  matchPattern,
+  stripComments,
   succeeds,
   searchIndexExists,
   type ScoreResult,
   type ScorerContext,
   type CodeGenScorer,
+  type TypeCheckDiagnostic,
+  type PatternMatch,
   type ScoreCategory,
 } from "./scorers/index.js";
 
+// Re-export reporters
+export {
+  braintrustReporter,
+  createLocalReporter,
+  renderHtmlReport,
+  resolveReporters,
+  DEFAULT_REPORTERS,
+  type Reporter,
+  type RunReport,
+  type ExperimentReport,
+  type CaseReport,
+  type TurnReport,
+  type SampleScores,
+  type CleanupFailureReport,
+  type LocalReporterOptions,
+} from "./reporters/index.js";
+
+// Re-export LLM clients
+export {
+  createProxyClient,
+  createFixtureClient,
+  loadFixturesFromFile,
+  getReferenceImplementationCode,
+  functionToScript,
+  BRAINTRUST_PROXY_URL,
+  withRetries,
+  createRateLimiter,
+  isRetryableError,
+  LLMCallError,
+  DEFAULT_RETRY_OPTIONS,
+  type RetryOptions,
+  type LLMClient,
+  type CompletionContext,
+  type ProxyClientOptions,
+  type Fixture,
+  type FixtureClientOptions,
+} from "./clients/index.js";
+
 // Re-export utilities
-export { loadEvalCasesFromFile, loadEvalCasesFromDirectory, filterByTags } from "./utils/loadEvalCases.js";
+export {
+  loadEvalCasesFromFile,
+  loadEvalCasesFromDirectory,
+  findEvalCaseFiles,
+  filterByTags,
+  filterByName,
+  filterByFile,
+  filterByTagExpression,
+  parseTagExpression,
+  patternToRegExp,
+  selectEvalCases,
+  type CaseSelection,
+  type TagMatcher,
+  expandEvalCaseFile,
+  substituteVariables,
+  mergeDefaults,
+  type ExpandedEvalCase,
+} from "./utils/loadEvalCases.js";
+export {
+  lintEvalCaseFiles,
+  formatLintIssue,
+  type LintIssue,
+  type LintOptions,
+  type LintSeverity,
+} from "./utils/lint-eval-cases.js";
 export { aggregateScores, flattenScores, type AggregatedScores } from "./utils/averageScores.js";
-export { runCleanup, dropSearchIndex } from "./utils/cleanup.js";
+export {
+  summarizeSamples,
+  passAtK,
+  mean,
+  standardDeviation,
+  type SampleScore,
+  type SampleStats,
+  type CaseSampleStats,
+} from "./utils/sampleStats.js";
+export { runCleanup, dropSearchIndex, cleanupActions, type CleanupOutcome } from "./utils/cleanup.js";
+export {
+  runSetup,
+  revertSetup,
+  loadSetupDocuments,
+  SetupError,
+  type AppliedSetup,
+} from "./utils/setup.js";
+export {
+  createGenerationCache,
+  generationCacheKey,
+  parseCacheMode,
+  type GenerationCache,
+  type GenerationCacheMode,
+  type GenerationCacheOptions,
+  type CachedGeneration,
+  type CacheLookup,
+} from "./utils/generation-cache.js";
+export {
+  openRunState,
+  generateRunId,
+  type RunState,
+  type RunStateFile,
+  type RunStateOptions,
+} from "./utils/run-state.js";
+export {
+  readSkillFile,
+  readSkillFiles,
+  readSkillFileWithInfo,
+  readSkillFilesWithInfo,
+  resolveSkillBaseDir,
+  SkillFileError,
+  type ReadSkillFileOptions,
+  type SkillFileOptions,
+  type SkillFileResult,
+  type SkillFilesResult,
+} from "./utils/read-skill-file.js";
+export {
+  DEFAULT_MODEL_PRICES,
+  getModelPrice,
+  estimateCost,
+  createGenerationUsage,
+  addUsage,
+  loadModelPrices,
+  type ModelPrice,
+  type ModelPriceTable,
+  type GenerationUsage,
+} from "./utils/generation-usage.js";
+export {
+  createIsolatedNamespace,
+  dropIsolatedNamespace,
+  isolatedDatabaseName,
+  getCaseCollections,
+  redirectExpected,
+  redirectCleanup,
+  redirectSetup,
+  createRedirectingMongoClient,
+  type DatabaseRedirects,
+} from "./utils/db-isolation.js";
@@ -0,0 +1,18 @@
+/**
+ * Braintrust reporter.
+ *
+ * Results are logged by Braintrust's Eval() itself; this reporter only
+ * enables sending them and prints where to find each experiment.
+ */
+
+import type { ExperimentReport, Reporter } from "./types.js";
+
+export const braintrustReporter: Reporter = {
+  name: "braintrust",
+  sendsToBraintrust: true,
+  async onExperimentEnd(report: ExperimentReport): Promise<void> {
+    if (report.experimentUrl) {
+      console.log(`[Braintrust] ${report.experimentName}: ${report.experimentUrl}`);
+    }
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Reporters index - exports all reporters and utilities.
+ */
+
+// Types
+export type {
+  Reporter,
+  RunReport,
+  ExperimentReport,
+  CaseReport,
+  TurnReport,
+  SampleScores,
+  CleanupFailureReport,
+} from "./types.js";
+
+export { braintrustReporter } from "./braintrust.js";
+export { createLocalReporter, renderHtmlReport, type LocalReporterOptions } from "./local.js";
+
+import { braintrustReporter } from "./braintrust.js";
+import { createLocalReporter } from "./local.js";
+import type { Reporter } from "./types.js";
+
+/** Reporters used when EvaluationConfig.reporters is not specified */
+export const DEFAULT_REPORTERS = ["braintrust"];
+
+/**
+ * Resolve a list of reporter names and/or Reporter objects.
+ *
+ * Built-in names: "braintrust", "local" (writes to ./reports).
+ */
+export function resolveReporters(reporters: Array<string | Reporter> = DEFAULT_REPORTERS): Reporter[] {
+  return reporters.map((reporter) => {
+    if (typeof reporter !== "string") return reporter;
+
+    switch (reporter) {
+      case "braintrust":
+        return braintrustReporter;
+      case "local":
+        return createLocalReporter();
+      default:
+        throw new Error(`Unknown reporter "${reporter}". Available reporters: braintrust, local`);
+    }
+  });
+}
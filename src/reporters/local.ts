@@ -0,0 +1,172 @@
+/**
+ * Local reporter.
+ *
+ * Writes the full run results to a JSON file and a static HTML summary,
+ * so runs can be inspected without Braintrust.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type { CaseReport, CleanupFailureReport, ExperimentReport, Reporter, RunReport } from "./types.js";
+
+export interface LocalReporterOptions {
+  /** Directory to write reports to (default: "reports") */
+  outputDir?: string;
+}
+
+/**
+ * Create a reporter that writes report.json and report.html to
+ * <outputDir>/<run timestamp>/.
+ */
+export function createLocalReporter(options: LocalReporterOptions = {}): Reporter {
+  const { outputDir = "reports" } = options;
+
+  return {
+    name: "local",
+    async onRunEnd(report: RunReport): Promise<void> {
+      const runDir = join(outputDir, report.startedAt.replace(/[:.]/g, "-"));
+      await mkdir(runDir, { recursive: true });
+
+      const jsonPath = join(runDir, "report.json");
+      const htmlPath = join(runDir, "report.html");
+      await writeFile(jsonPath, JSON.stringify(report, null, 2), "utf-8");
+      await writeFile(htmlPath, renderHtmlReport(report), "utf-8");
+
+      console.log(`[Report] Wrote ${jsonPath}`);
+      console.log(`[Report] Wrote ${htmlPath}`);
+    },
+  };
+}
+
+// =============================================================================
+// HTML RENDERING
+// =============================================================================
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? "-" : score.toFixed(2);
+}
+
+function formatCost(cost: number | null | undefined): string {
+  return cost === null || cost === undefined ? "-" : `$${cost.toFixed(4)}`;
+}
+
+function renderSummaryTable(experiments: ExperimentReport[]): string {
+  // With one sample per case, pass@k is pass@1
+  const showPassAtK = experiments.some(({ summary }) => summary.stats.k > 1);
+  const rows = experiments
+    .map(({ experimentName, summary }) => {
+      const { stats, usage } = summary;
+      const passAtK = showPassAtK ? `\n  <td>${formatScore(stats.passAtK)} (k=${stats.k})</td>` : "";
+      return `<tr>
+  <td>${escapeHtml(experimentName)}</td>
+  <td>${escapeHtml(summary.approach)}</td>
+  <td>${escapeHtml(summary.model)}</td>
+  <td>${formatScore(stats.passAt1)}</td>${passAtK}
+  <td>${formatScore(stats.meanScore)} &plusmn; ${formatScore(stats.stdDevScore)}</td>
+  <td>${stats.samples}${summary.infrastructureErrors > 0 ? ` (${summary.infrastructureErrors} infrastructure error(s) excluded)` : ""}</td>
+  <td>${usage.promptTokens} / ${usage.completionTokens}</td>
+  <td>${(usage.meanLatencyMs / 1000).toFixed(1)}s</td>
+  <td>${formatCost(usage.totalCost)}</td>
+  <td>${formatCost(usage.costPerPassingCase)}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  return `<table>
+<thead><tr><th>Experiment</th><th>Approach</th><th>Model</th><th>pass@1</th>${showPassAtK ? "<th>pass@k</th>" : ""}<th>Mean &plusmn; SD</th><th>Samples</th><th>Tokens (prompt / completion)</th><th>Mean latency</th><th>Cost</th><th>Cost / passing case</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+function renderCase(caseReport: CaseReport): string {
+  const compound = caseReport.scores?.compound.score;
+  const categories = (caseReport.scores?.categories ?? [])
+    .map((c) => `${escapeHtml(c.name)}: ${formatScore(c.score)}`)
+    .join(", ");
+  const individual = (caseReport.scores?.individual ?? [])
+    .map((s) => `<li>${escapeHtml(s.name)}: ${formatScore(s.score)}</li>`)
+    .join("\n");
+  const errors = [caseReport.error, caseReport.infrastructureError, caseReport.executionError]
+    .filter(Boolean)
+    .map((e) => `<pre class="error">${escapeHtml(e)}</pre>`)
+    .join("\n");
+  const turns = (caseReport.turns ?? [])
+    .map((turn) => `<h4>Turn ${turn.turn}${turn.scores ? ` &mdash; ${formatScore(turn.scores.compound.score)}` : ""}</h4>
+<p>${escapeHtml(turn.prompt)}</p>
+<pre>${escapeHtml(turn.output)}</pre>`)
+    .join("\n");
+
+  return `<details>
+<summary>${escapeHtml(caseReport.caseName)} #${caseReport.sampleIndex + 1} &mdash; ${formatScore(compound)}${categories ? ` (${categories})` : ""}</summary>
+<ul>
+${individual}
+</ul>
+${errors}
+${turns ? `${turns}\n<h4>Final code</h4>` : ""}
+<pre>${escapeHtml(caseReport.output ?? "")}</pre>
+</details>`;
+}
+
+function renderExperiment(experiment: ExperimentReport): string {
+  return `<section>
+<h2>${escapeHtml(experiment.experimentName)}</h2>
+${experiment.cases.map(renderCase).join("\n")}
+</section>`;
+}
+
+function renderCleanupFailures(failures: CleanupFailureReport[]): string {
+  if (failures.length === 0) return "";
+
+  const rows = failures.map((failure) => `<tr>
+  <td>${escapeHtml(failure.caseName)}</td>
+  <td>${escapeHtml(failure.experimentName ?? "-")}</td>
+  <td>${escapeHtml(failure.action)}</td>
+  <td>${escapeHtml(failure.target)}</td>
+  <td>${escapeHtml(failure.error)}</td>
+</tr>`);
+
+  return `<h2>Cleanup failures</h2>
+<table>
+<tr><th>Case</th><th>Experiment</th><th>Action</th><th>Target</th><th>Error</th></tr>
+${rows.join("\n")}
+</table>`;
+}
+
+/**
+ * Render a run report as a self-contained HTML page.
+ */
+export function renderHtmlReport(report: RunReport): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.projectName)} - ${escapeHtml(report.startedAt)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+  pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; }
+  pre.error { background: #fdecea; }
+  details { margin: 0.3rem 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.projectName)}</h1>
+<p>Run ${escapeHtml(report.runId)}: started ${escapeHtml(report.startedAt)}, finished ${escapeHtml(report.finishedAt)}</p>
+${renderSummaryTable(report.experiments)}
+${renderCleanupFailures(report.cleanupFailures)}
+${report.experiments.map(renderExperiment).join("\n")}
+</body>
+</html>
+`;
+}
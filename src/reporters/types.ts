@@ -0,0 +1,117 @@
+/**
+ * Reporter types for the code generation evaluation framework.
+ *
+ * Reporters receive the results of each experiment (one approach x model)
+ * and of the whole run. Braintrust is one reporter; others write results
+ * locally so runs work without network access or an API key.
+ */
+
+import type { ApproachSummary, TaskInput } from "../harness/types.js";
+import type { ScoreResult } from "../scorers/types.js";
+
+// =============================================================================
+// REPORT TYPES
+// =============================================================================
+
+/**
+ * Scores for a single sample, as produced by aggregateScores().
+ */
+export interface SampleScores {
+  individual: ScoreResult[];
+  categories: ScoreResult[];
+  compound: ScoreResult;
+}
+
+/**
+ * Code and scores of one turn of a multi-turn eval case.
+ */
+export interface TurnReport {
+  /** 1-based turn number */
+  turn: number;
+  prompt: string;
+  /** Code generated in this turn */
+  output: string;
+  /** Scores of the turn's own assertions (null if the turn has none) */
+  scores: SampleScores | null;
+}
+
+/**
+ * Result of one sample of one eval case within an experiment.
+ */
+export interface CaseReport {
+  caseName: string;
+  sampleIndex: number;
+  input: TaskInput;
+  /** Generated code (undefined if the task failed); the final turn's code for multi-turn cases */
+  output?: string;
+  /** Each turn of a multi-turn case */
+  turns?: TurnReport[];
+  /** Task metadata (approach, model, prompt details, ...) */
+  metadata: Record<string, unknown>;
+  /** All scores (null if the sample was never scored) */
+  scores: SampleScores | null;
+  /** Error message from executing the generated code */
+  executionError?: string;
+  /** Error thrown by the task itself */
+  error?: string;
+  /** LLM call failure after all retries, unreadable skill file in strict mode, or failed setup (the sample is left out of the statistics) */
+  infrastructureError?: string;
+}
+
+/**
+ * Results of one experiment (one approach run against one model).
+ */
+export interface ExperimentReport {
+  projectName: string;
+  experimentName: string;
+  summary: ApproachSummary;
+  cases: CaseReport[];
+  /** Braintrust experiment URL, when results were sent to Braintrust */
+  experimentUrl?: string;
+}
+
+/**
+ * A cleanup action that failed during the run.
+ */
+export interface CleanupFailureReport {
+  caseName: string;
+  /** Experiment of the row whose cleanup failed (unset for the cleanups before and between experiments) */
+  experimentName?: string;
+  /** Action name, e.g. "dropCollection" */
+  action: string;
+  /** What the action applied to, e.g. "sample_mflix.movies" */
+  target: string;
+  error: string;
+}
+
+/**
+ * Results of a complete evaluation run.
+ */
+export interface RunReport {
+  projectName: string;
+  /** Run ID (the same across resumed attempts at a run) */
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  experiments: ExperimentReport[];
+  /** Cleanup actions that failed, in the order they ran */
+  cleanupFailures: CleanupFailureReport[];
+}
+
+// =============================================================================
+// REPORTER INTERFACE
+// =============================================================================
+
+/**
+ * Receives evaluation results.
+ */
+export interface Reporter {
+  /** Name used to select the reporter (e.g., "local") */
+  name: string;
+  /** Whether results must be sent to Braintrust for this reporter */
+  sendsToBraintrust?: boolean;
+  /** Called after each experiment completes */
+  onExperimentEnd?(report: ExperimentReport): Promise<void>;
+  /** Called once after all experiments complete */
+  onRunEnd?(report: RunReport): Promise<void>;
+}
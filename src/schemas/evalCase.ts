@@ -2,9 +2,13 @@
  * Zod schema for eval case YAML files.
  *
  * Eval cases are declarative YAML files that define:
- * - Input: prompt, docLink, skillFile
+ * - Input: prompt (or multi-turn conversation), docLink, skillFile, prompt template
  * - Expected assertions: syntax, semantic, execution, result
+ * - Setup: data and indexes created before the eval and reverted after it
  * - Cleanup: actions to run after the eval
+ *
+ * A file is either an array of eval cases, or an object with file-level
+ * variables, defaults merged into each case, and the cases themselves.
  */
 
 import { z } from "zod";
@@ -13,10 +17,35 @@ import { z } from "zod";
 // PATTERN SCHEMAS
 // =============================================================================
 
+/**
+ * How a pattern is matched against the code:
+ * - literal: the exact text, anywhere (the default)
+ * - regex: a regular expression, with optional flags
+ * - ignoreComments: the exact text, outside comments
+ */
+const MatchModeSchema = z.enum(["literal", "regex", "ignoreComments"]);
+
 /** Pattern with a name for identification in Braintrust */
 const PatternSchema = z.object({
   pattern: z.string(),
   name: z.string(),
+  /** Match mode (default: literal) */
+  match: MatchModeSchema.optional(),
+  /** Regular expression flags, e.g. "i" (regex mode only) */
+  flags: z.string().optional(),
+}).superRefine((pattern, ctx) => {
+  if (pattern.match !== "regex") {
+    if (pattern.flags !== undefined) {
+      ctx.addIssue({ code: "custom", message: "flags only apply to match: regex", path: ["flags"] });
+    }
+    return;
+  }
+  try {
+    new RegExp(pattern.pattern, pattern.flags);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.addIssue({ code: "custom", message, path: ["pattern"] });
+  }
 });
 
 // =============================================================================
@@ -27,6 +56,12 @@ const PatternSchema = z.object({
 const SyntaxExpectedSchema = z.object({
   isValidJS: z.boolean().optional(),
   hasAsyncAwait: z.boolean().optional(),
+  isValidPython: z.boolean().optional(),
+  /** Type-check TypeScript output (strict mode unless strict: false) */
+  typeChecks: z.union([
+    z.boolean(),
+    z.object({ strict: z.boolean().optional() }),
+  ]).optional(),
 }).optional();
 
 /** Semantic assertions - pattern matching in generated code */
@@ -38,6 +73,14 @@ const SemanticExpectedSchema = z.object({
 /** Execution assertions - code runs successfully */
 const ExecutionExpectedSchema = z.object({
   shouldSucceed: z.boolean().optional(),
+  /** Execution timeout in seconds (default: 30). Index-building cases usually need more */
+  timeoutSeconds: z.number().positive().optional(),
+  /** Node.js modules the code may require besides mongodb (JavaScript and TypeScript only) */
+  allowedModules: z.array(z.string()).optional(),
+  /** Extra environment variables for the code (MONGODB_URI is always set by the harness) */
+  env: z.record(z.string(), z.string()).optional(),
+  /** Times to re-run the code after a failed execution, cleaning up in between (default: 0) */
+  retries: z.number().int().nonnegative().optional(),
 }).optional();
 
 /** Search index configuration for result validation */
@@ -68,14 +111,84 @@ const ExpectedSchema = z.object({
 // INPUT SCHEMA
 // =============================================================================
 
+/** One user turn of a multi-turn eval case */
+const TurnSchema = z.object({
+  prompt: z.string(),
+  /** Assertions for the code generated in this turn (scored separately from the case's expected) */
+  expected: ExpectedSchema.optional(),
+});
+
 /** Input configuration for an eval case */
 const InputSchema = z.object({
-  prompt: z.string(),
+  /** Single-turn prompt (use turns instead for a conversation) */
+  prompt: z.string().optional(),
+  /**
+   * User turns of a multi-turn conversation, sent in order with the model's
+   * previous code carried forward. The case's expected applies to the final turn
+   */
+  turns: z.array(TurnSchema).min(1).optional(),
   docLink: z.string().url().optional(),
   /** Single skill file path or array of paths to concatenate */
   skillFiles: z.union([z.string(), z.array(z.string())]).optional(),
+  /** Name of the prompt template for system prompts (overrides the run setting) */
+  promptTemplate: z.string().optional(),
+  /** Prompt template variables (merged over the run's variables) */
+  promptVariables: z.record(z.string(), z.string()).optional(),
+}).refine((input) => (input.prompt === undefined) !== (input.turns === undefined), {
+  message: "Set either prompt or turns, not both",
+  path: ["prompt"],
 });
 
+// =============================================================================
+// SETUP SCHEMAS
+// =============================================================================
+
+/** A collection, by database and name */
+const NamespaceSchema = z.object({
+  database: z.string(),
+  collection: z.string(),
+});
+
+/** Insert documents given inline or in a JSON/YAML file (Extended JSON such as $oid and $date is supported) */
+const InsertDocumentsSchema = NamespaceSchema.extend({
+  documents: z.array(z.record(z.string(), z.unknown())).optional(),
+  /** File with an array of documents, relative to the eval case's YAML file */
+  file: z.string().optional(),
+}).refine((insert) => (insert.documents === undefined) !== (insert.file === undefined), {
+  message: "Set either documents or file",
+  path: ["documents"],
+});
+
+/** Create a regular index */
+const CreateIndexSchema = NamespaceSchema.extend({
+  /** Index keys, e.g. { title: 1 } */
+  keys: z.record(z.string(), z.union([z.number(), z.string()])),
+  name: z.string().optional(),
+  /** Other createIndex options, e.g. { unique: true } */
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+/** Create a search index and wait until it can be queried */
+const CreateSearchIndexSchema = NamespaceSchema.extend({
+  /** Index name (default: "default") */
+  name: z.string().optional(),
+  type: z.enum(["search", "vectorSearch"]).optional(),
+  definition: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Actions to run before the eval. Everything they create is reverted after
+ * the row is scored; collections and indexes that already existed are left alone.
+ */
+const SetupSchema = z.object({
+  createCollections: z.array(NamespaceSchema).optional(),
+  insertDocuments: z.array(InsertDocumentsSchema).optional(),
+  createIndexes: z.array(CreateIndexSchema).optional(),
+  createSearchIndexes: z.array(CreateSearchIndexSchema).optional(),
+  /** Maximum time to wait for search indexes to become queryable, and for them to be dropped (default: 60) */
+  maxWaitSeconds: z.number().positive().optional(),
+}).optional();
+
 // =============================================================================
 // CLEANUP SCHEMAS
 // =============================================================================
@@ -87,34 +200,112 @@ const DropSearchIndexSchema = z.object({
   indexName: z.string(),
 }).optional();
 
+/** A cleanup action, selected by its action name */
+const CleanupActionSchema = z.discriminatedUnion("action", [
+  NamespaceSchema.extend({ action: z.literal("dropCollection") }),
+  z.object({ action: z.literal("dropDatabase"), database: z.string() }),
+  NamespaceSchema.extend({ action: z.literal("dropIndex"), indexName: z.string() }),
+  /** Delete the documents matching filter (Extended JSON such as $oid and $date is supported) */
+  NamespaceSchema.extend({ action: z.literal("deleteMany"), filter: z.record(z.string(), z.unknown()) }),
+  NamespaceSchema.extend({ action: z.literal("dropSearchIndex"), indexName: z.string() }),
+  NamespaceSchema.extend({ action: z.literal("dropAllSearchIndexes") }),
+]);
+
 /** Cleanup actions to run after the eval */
 const CleanupSchema = z.object({
   dropSearchIndex: DropSearchIndexSchema,
+  /** Actions to run in order (after dropSearchIndex, if set) */
+  actions: z.array(CleanupActionSchema).optional(),
+  /** Maximum time to wait for async cleanup such as search index drops (default: 60) */
+  maxWaitSeconds: z.number().positive().optional(),
 }).optional();
 
 // =============================================================================
 // EVAL CASE SCHEMA
 // =============================================================================
 
+/** Language the generated code is written in (selects the executor and default prompt template) */
+const LanguageSchema = z.enum(["javascript", "typescript", "python"]);
+
 /** A single eval case */
 export const EvalCaseSchema = z.object({
   name: z.string(),
   tags: z.array(z.string()).optional(),
+  /** Target language (default: javascript) */
+  language: LanguageSchema.optional(),
+  /** Number of completions to generate per approach (overrides the run setting) */
+  samples: z.number().int().positive().optional(),
   input: InputSchema,
   expected: ExpectedSchema,
+  setup: SetupSchema,
   cleanup: CleanupSchema,
+  /** Matrix parameter values this case was expanded with (set by the loader) */
+  parameters: z.record(z.string(), z.string()).optional(),
+  /** Path of the YAML file the case was loaded from (set by the loader) */
+  sourceFile: z.string().optional(),
 });
 
 /** Array of eval cases (a YAML file contains an array) */
 export const EvalCasesSchema = z.array(EvalCaseSchema);
 
+// =============================================================================
+// FILE SCHEMA
+// =============================================================================
+
+/**
+ * Defaults merged into every case of a file. Sections are checked loosely
+ * here; each merged case is validated with EvalCaseSchema.
+ */
+const EvalCaseDefaultsSchema = z.object({
+  tags: z.array(z.string()),
+  language: LanguageSchema,
+  samples: z.number().int().positive(),
+  input: z.record(z.string(), z.unknown()),
+  expected: z.record(z.string(), z.unknown()),
+  setup: z.record(z.string(), z.unknown()),
+  cleanup: z.record(z.string(), z.unknown()),
+}).partial().strict();
+
+/**
+ * Parameters a case is expanded over: one concrete case per combination
+ * of values, with ${name} placeholders replaced by the values.
+ */
+export const MatrixSchema = z.record(
+  z.string().regex(/^\w+$/, "Matrix parameter names may only contain letters, digits and _"),
+  z.array(z.union([z.string(), z.number(), z.boolean()])).min(1)
+);
+
+/**
+ * An eval case file: a plain array of cases, or cases with file-level
+ * ${var} variables and defaults.
+ */
+export const EvalCaseFileSchema = z.union([
+  z.array(z.unknown()),
+  z.object({
+    /** Values for ${var} placeholders (the environment is used for other names) */
+    variables: z.record(z.string(), z.string()).optional(),
+    /** Merged into each case; a case's own values win */
+    defaults: EvalCaseDefaultsSchema.optional(),
+    cases: z.array(z.unknown()),
+  }).strict(),
+]);
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
 
 export type EvalCase = z.infer<typeof EvalCaseSchema>;
 export type EvalCaseInput = z.infer<typeof InputSchema>;
+export type EvalCaseTurn = z.infer<typeof TurnSchema>;
 export type EvalCaseExpected = z.infer<typeof ExpectedSchema>;
+export type EvalCaseExecution = z.infer<typeof ExecutionExpectedSchema>;
+export type EvalCaseSetup = z.infer<typeof SetupSchema>;
 export type EvalCaseCleanup = z.infer<typeof CleanupSchema>;
+export type CleanupAction = z.infer<typeof CleanupActionSchema>;
+export type EvalCaseFileDefaults = z.infer<typeof EvalCaseDefaultsSchema>;
+export type EvalCaseFile = z.infer<typeof EvalCaseFileSchema>;
+export type EvalCaseMatrix = z.infer<typeof MatrixSchema>;
 export type Pattern = z.infer<typeof PatternSchema>;
+export type PatternMatchMode = z.infer<typeof MatchModeSchema>;
+export type CodeLanguage = z.infer<typeof LanguageSchema>;
 
@@ -44,6 +44,7 @@ export const succeeds: CodeGenScorer = async (context): Promise<ScoreResult> =>
       metadata: {
         executionTime: executionResult.executionTime,
         output: executionResult.output,
+        attempts: executionResult.attempts,
       },
     };
   }
@@ -54,6 +55,7 @@ export const succeeds: CodeGenScorer = async (context): Promise<ScoreResult> =>
     metadata: {
       error: executionResult.error,
       executionTime: executionResult.executionTime,
+      attempts: executionResult.attempts,
     },
   };
 };
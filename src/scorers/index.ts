@@ -12,10 +12,23 @@ export type {
 export { getScoreCategory } from "./types.js";
 
 // Syntax scorers
-export { isValidJS, hasAsyncAwait } from "./syntax/index.js";
+export {
+  isValidJS,
+  hasAsyncAwait,
+  isValidPython,
+  typeChecks,
+  typeCheckCode,
+  type TypeCheckDiagnostic,
+} from "./syntax/index.js";
 
 // Semantic scorers
-export { mustContain, mustNotContain } from "./semantic/index.js";
+export {
+  mustContain,
+  mustNotContain,
+  matchPattern,
+  stripComments,
+  type PatternMatch,
+} from "./semantic/index.js";
 
 // Execution scorers
 export { succeeds } from "./execution/index.js";
@@ -24,7 +37,7 @@ export { succeeds } from "./execution/index.js";
 export { searchIndexExists } from "./result/index.js";
 
 // All scorers in a single array for convenience
-import { isValidJS, hasAsyncAwait } from "./syntax/index.js";
+import { isValidJS, hasAsyncAwait, isValidPython, typeChecks } from "./syntax/index.js";
 import { mustContain, mustNotContain } from "./semantic/index.js";
 import { succeeds } from "./execution/index.js";
 import { searchIndexExists } from "./result/index.js";
@@ -39,6 +52,8 @@ export const allScorers: CodeGenScorer[] = [
   // Syntax
   isValidJS,
   hasAsyncAwait,
+  isValidPython,
+  typeChecks,
   // Semantic
   mustContain,
   mustNotContain,
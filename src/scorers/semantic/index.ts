@@ -4,4 +4,5 @@
 
 export { mustContain } from "./mustContain.js";
 export { mustNotContain } from "./mustNotContain.js";
+export { matchPattern, stripComments, type PatternMatch } from "./matchPattern.js";
 
@@ -0,0 +1,138 @@
+/**
+ * Pattern matching for the semantic scorers.
+ *
+ * Patterns match as literal text (the default), as regular expressions, or
+ * as literal text outside comments. Comments are found with the TypeScript
+ * parser for JavaScript and TypeScript code, and with a string-aware scan
+ * for Python, so comment markers inside strings are left alone.
+ */
+
+import ts from "typescript";
+import type { CodeLanguage, Pattern } from "../../schemas/evalCase.js";
+
+/** Where a pattern matched */
+export interface PatternMatch {
+  /** The matched text */
+  text: string;
+  /** Offset in the code */
+  index: number;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/**
+ * Find the first match of a pattern in the code.
+ *
+ * @param language - Language of the code, used to find comments (default: javascript)
+ * @returns The match, or null if the pattern isn't found
+ */
+export function matchPattern(
+  code: string,
+  pattern: Pattern,
+  language: CodeLanguage = "javascript"
+): PatternMatch | null {
+  switch (pattern.match ?? "literal") {
+    case "regex": {
+      const match = new RegExp(pattern.pattern, pattern.flags).exec(code);
+      return match ? locate(code, match.index, match[0]) : null;
+    }
+    case "ignoreComments": {
+      const index = stripComments(code, language).indexOf(pattern.pattern);
+      return index === -1 ? null : locate(code, index, pattern.pattern);
+    }
+    default: {
+      const index = code.indexOf(pattern.pattern);
+      return index === -1 ? null : locate(code, index, pattern.pattern);
+    }
+  }
+}
+
+function locate(code: string, index: number, text: string): PatternMatch {
+  const before = code.slice(0, index).split("\n");
+  return { text, index, line: before.length, column: (before.at(-1) ?? "").length + 1 };
+}
+
+/**
+ * Replace comments with spaces. Line breaks are kept, so offsets, lines and
+ * columns in the result match the original code.
+ */
+export function stripComments(code: string, language: CodeLanguage = "javascript"): string {
+  const ranges = language === "python" ? pythonCommentRanges(code) : scriptCommentRanges(code, language);
+
+  let result = "";
+  let position = 0;
+  for (const { pos, end } of ranges) {
+    result += code.slice(position, pos) + code.slice(pos, end).replace(/[^\r\n]/g, " ");
+    position = end;
+  }
+  return result + code.slice(position);
+}
+
+/** A span of the code, from pos up to (not including) end */
+interface Range {
+  pos: number;
+  end: number;
+}
+
+/**
+ * Comments in JavaScript or TypeScript code, in order. Every comment is
+ * trivia around some token: leading (on the lines before it) or trailing
+ * (on the same line after it), so the comments of all nodes cover them
+ * all. The parser tolerates syntax errors.
+ */
+function scriptCommentRanges(code: string, language: CodeLanguage): Range[] {
+  const scriptKind = language === "typescript" ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  const sourceFile = ts.createSourceFile("code", code, ts.ScriptTarget.Latest, false, scriptKind);
+  const ranges = new Map<number, Range>();
+
+  const visit = (node: ts.Node) => {
+    const comments = [
+      ...(ts.getLeadingCommentRanges(code, node.getFullStart()) ?? []),
+      ...(ts.getTrailingCommentRanges(code, node.getEnd()) ?? []),
+    ];
+    for (const { pos, end } of comments) {
+      ranges.set(pos, { pos, end });
+    }
+    for (const child of node.getChildren(sourceFile)) {
+      visit(child);
+    }
+  };
+  visit(sourceFile);
+
+  return [...ranges.values()].sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Comments in Python code, in order: # to the end of the line, outside
+ * string literals (including triple-quoted ones).
+ */
+function pythonCommentRanges(code: string): Range[] {
+  const ranges: Range[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (char === "#") {
+      const newline = code.indexOf("\n", i);
+      const end = newline === -1 ? code.length : newline;
+      ranges.push({ pos: i, end });
+      i = end;
+    } else if (char === "'" || char === '"') {
+      const quote = code.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      i += quote.length;
+      while (i < code.length && !code.startsWith(quote, i)) {
+        // An unterminated single-quoted string ends at the line break
+        if (quote.length === 1 && code[i] === "\n") break;
+        i += code[i] === "\\" ? 2 : 1;
+      }
+      i += quote.length;
+    } else {
+      i++;
+    }
+  }
+
+  return ranges;
+}
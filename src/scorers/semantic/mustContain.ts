@@ -6,18 +6,20 @@
  */
 
 import type { CodeGenScorer, ScoreResult } from "../types.js";
+import { matchPattern } from "./matchPattern.js";
 
 /**
  * Checks if the generated code contains all required patterns.
  *
- * Returns an array of ScoreResults, one for each pattern:
- * - score: 1 if pattern is found in the code
+ * Returns an array of ScoreResults, one for each pattern, matched with the
+ * pattern's match mode:
+ * - score: 1 if pattern is found in the code (metadata.location says where)
  * - score: 0 if pattern is not found
  *
  * Returns a single result with score: null if no mustContain patterns are specified.
  */
 export const mustContain: CodeGenScorer = async (context): Promise<ScoreResult | ScoreResult[]> => {
-  const { output, expected } = context;
+  const { output, expected, language } = context;
   const patterns = expected.semantic?.mustContain;
 
   // Check if this assertion applies
@@ -26,14 +28,18 @@ export const mustContain: CodeGenScorer = async (context): Promise<ScoreResult |
   }
 
   // Check each pattern and return a separate score for each
-  return patterns.map(({ pattern, name }) => {
-    const found = output.includes(pattern);
+  return patterns.map((pattern) => {
+    const match = matchPattern(output, pattern, language);
     return {
-      name: `Semantic_${name}`,
-      score: found ? 1 : 0,
+      name: `Semantic_${pattern.name}`,
+      score: match ? 1 : 0,
       metadata: {
-        pattern,
-        found,
+        pattern: pattern.pattern,
+        match: pattern.match ?? "literal",
+        flags: pattern.flags,
+        found: match !== null,
+        location: match ? { line: match.line, column: match.column } : undefined,
+        matched: match?.text,
       },
     };
   });
@@ -7,18 +7,20 @@
  */
 
 import type { CodeGenScorer, ScoreResult } from "../types.js";
+import { matchPattern } from "./matchPattern.js";
 
 /**
  * Checks if the generated code does NOT contain forbidden patterns.
  *
- * Returns an array of ScoreResults, one for each pattern:
+ * Returns an array of ScoreResults, one for each pattern, matched with the
+ * pattern's match mode:
  * - score: 1 if pattern is NOT found (good)
- * - score: 0 if pattern IS found (bad)
+ * - score: 0 if pattern IS found (bad; metadata.location says where)
  *
  * Returns a single result with score: null if no mustNotContain patterns are specified.
  */
 export const mustNotContain: CodeGenScorer = async (context): Promise<ScoreResult | ScoreResult[]> => {
-  const { output, expected } = context;
+  const { output, expected, language } = context;
   const patterns = expected.semantic?.mustNotContain;
 
   // Check if this assertion applies
@@ -27,15 +29,19 @@ export const mustNotContain: CodeGenScorer = async (context): Promise<ScoreResul
   }
 
   // Check each pattern and return a separate score for each
-  return patterns.map(({ pattern, name }) => {
-    const found = output.includes(pattern);
+  return patterns.map((pattern) => {
+    const match = matchPattern(output, pattern, language);
     return {
-      name: `Semantic_${name}`,
-      score: found ? 0 : 1, // 0 if found (bad), 1 if not found (good)
+      name: `Semantic_${pattern.name}`,
+      score: match ? 0 : 1, // 0 if found (bad), 1 if not found (good)
       metadata: {
-        pattern,
-        found,
-        reason: found ? `Found forbidden pattern: ${pattern}` : undefined,
+        pattern: pattern.pattern,
+        match: pattern.match ?? "literal",
+        flags: pattern.flags,
+        found: match !== null,
+        location: match ? { line: match.line, column: match.column } : undefined,
+        matched: match?.text,
+        reason: match ? `Found forbidden pattern: ${pattern.pattern} at line ${match.line}, column ${match.column}` : undefined,
       },
     };
   });
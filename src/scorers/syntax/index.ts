@@ -4,4 +4,6 @@
 
 export { isValidJS } from "./isValidJS.js";
 export { hasAsyncAwait } from "./hasAsyncAwait.js";
+export { isValidPython } from "./isValidPython.js";
+export { typeChecks, typeCheckCode, type TypeCheckDiagnostic } from "./typeChecks.js";
 
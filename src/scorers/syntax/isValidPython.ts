@@ -0,0 +1,64 @@
+/**
+ * Syntax scorer: IsValidPython
+ *
+ * Validates that the generated code is syntactically valid Python.
+ * Uses Python's own ast module, so python3 must be installed.
+ */
+
+import { runPython } from "../../utils/python-executor.js";
+import type { CodeGenScorer, ScoreResult } from "../types.js";
+
+/** Parses stdin and prints the first syntax error */
+const PARSE_SCRIPT = `import ast, sys
+try:
+    ast.parse(sys.stdin.read())
+except SyntaxError as e:
+    print(f"{e.msg} (line {e.lineno}, column {e.offset})")
+    sys.exit(1)`;
+
+/**
+ * Checks if the generated code is valid Python syntax.
+ *
+ * Returns:
+ * - score: 1 if code parses successfully
+ * - score: 0 if code has syntax errors (or python3 could not be run)
+ * - score: null if isValidPython assertion is not specified
+ */
+export const isValidPython: CodeGenScorer = async (context): Promise<ScoreResult> => {
+  const { output, expected } = context;
+
+  // Check if this assertion applies
+  if (expected.syntax?.isValidPython !== true) {
+    return { name: "Syntax_IsValidPython", score: null };
+  }
+
+  try {
+    const result = await runPython(["-c", PARSE_SCRIPT], { input: output, timeout: 10000 });
+
+    if (result.exitCode === 0) {
+      return {
+        name: "Syntax_IsValidPython",
+        score: 1,
+        metadata: { parsed: true },
+      };
+    }
+
+    return {
+      name: "Syntax_IsValidPython",
+      score: 0,
+      metadata: {
+        parsed: false,
+        error: result.stdout.trim() || result.stderr.trim(),
+        // Include preview of output to help debug in Braintrust
+        outputPreview: output.slice(0, 200),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      name: "Syntax_IsValidPython",
+      score: 0,
+      metadata: { parsed: false, error: errorMessage },
+    };
+  }
+};
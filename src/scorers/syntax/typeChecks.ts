@@ -0,0 +1,147 @@
+/**
+ * Syntax scorer: TypeChecks
+ *
+ * Type-checks the generated TypeScript code against the installed mongodb
+ * driver and Node.js type definitions. Catches API misuse that parsing and
+ * pattern matching can't, such as wrong method names or option shapes.
+ */
+
+import { createRequire } from "module";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+import type { CodeGenScorer, ScoreResult } from "../types.js";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Virtual path of the generated code. It sits next to this module so
+ * "mongodb" resolves to the harness's own node_modules.
+ */
+const GENERATED_FILE = join(dirname(fileURLToPath(import.meta.url)), "__generated-code.ts");
+
+/**
+ * Top-level await errors are ignored: the executor wraps generated code in
+ * an async function, so top-level await works at runtime.
+ */
+const IGNORED_DIAGNOSTICS = new Set([1375, 1378]);
+
+/** Library and type definition files, parsed once and shared across checks */
+const sourceFileCache = new Map<string, ts.SourceFile>();
+
+/** A type-check diagnostic in the generated code */
+export interface TypeCheckDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+function compilerOptions(strict: boolean): ts.CompilerOptions {
+  return {
+    strict,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    esModuleInterop: true,
+    lib: ["lib.es2022.d.ts"],
+    types: ["node"],
+    typeRoots: [dirname(dirname(require.resolve("@types/node/package.json")))],
+  };
+}
+
+/**
+ * Type-check code as a standalone TypeScript file.
+ *
+ * @returns Diagnostics located in the code (empty if it type-checks)
+ */
+export function typeCheckCode(code: string, strict: boolean = true): TypeCheckDiagnostic[] {
+  const options = compilerOptions(strict);
+  const host = ts.createCompilerHost(options);
+  const generated = ts.createSourceFile(GENERATED_FILE, code, ts.ScriptTarget.ES2022, true);
+
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (fileName === GENERATED_FILE) return generated;
+
+    const cached = sourceFileCache.get(fileName);
+    if (cached) return cached;
+
+    const sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    if (sourceFile) sourceFileCache.set(fileName, sourceFile);
+    return sourceFile;
+  };
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = (fileName) => fileName === GENERATED_FILE || fileExists(fileName);
+  const readFile = host.readFile.bind(host);
+  host.readFile = (fileName) => (fileName === GENERATED_FILE ? code : readFile(fileName));
+
+  const program = ts.createProgram([GENERATED_FILE], options, host);
+  return ts
+    .getPreEmitDiagnostics(program, generated)
+    .filter((diagnostic) => !IGNORED_DIAGNOSTICS.has(diagnostic.code))
+    .map((diagnostic) => {
+      const { line, character } = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : { line: -1, character: -1 };
+      return {
+        line: line + 1,
+        column: character + 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+      };
+    });
+}
+
+/**
+ * Checks if the generated code type-checks.
+ *
+ * Returns:
+ * - score: 1 if there are no type errors
+ * - score: 0 if there are type errors (listed in metadata.diagnostics)
+ * - score: null if typeChecks assertion is not specified
+ */
+export const typeChecks: CodeGenScorer = async (context): Promise<ScoreResult> => {
+  const { output, expected } = context;
+  const assertion = expected.syntax?.typeChecks;
+
+  // Check if this assertion applies
+  if (!assertion) {
+    return { name: "Syntax_TypeChecks", score: null };
+  }
+
+  const strict = typeof assertion === "object" ? assertion.strict ?? true : true;
+
+  try {
+    const diagnostics = typeCheckCode(output, strict);
+    if (diagnostics.length === 0) {
+      return {
+        name: "Syntax_TypeChecks",
+        score: 1,
+        metadata: { strict },
+      };
+    }
+
+    return {
+      name: "Syntax_TypeChecks",
+      score: 0,
+      metadata: {
+        strict,
+        // Summary used as the self-repair feedback
+        error: diagnostics
+          .map((d) => `TS${d.code} at ${d.line}:${d.column}: ${d.message}`)
+          .join("\n"),
+        diagnostics,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      name: "Syntax_TypeChecks",
+      score: 0,
+      metadata: { error: errorMessage },
+    };
+  }
+};
@@ -7,7 +7,7 @@
  * - Return one or more named scores for Braintrust
  */
 
-import type { EvalCaseExpected } from "../schemas/evalCase.js";
+import type { CodeLanguage, EvalCaseExpected } from "../schemas/evalCase.js";
 
 // =============================================================================
 // SCORE RESULT TYPES
@@ -38,12 +38,16 @@ export interface ScorerContext {
   output: string;
   /** The expected assertions from the eval case */
   expected: EvalCaseExpected;
+  /** Language the code is written in (default: javascript) */
+  language?: CodeLanguage;
   /** Result of code execution (if execution scorer ran) */
   executionResult?: {
     success: boolean;
     output?: unknown;
     error?: string;
     executionTime?: number;
+    /** Number of times the code was run (only set when it was retried) */
+    attempts?: number;
   };
 }
 
@@ -1,98 +1,235 @@
 /**
  * Cleanup utilities for eval cases.
  *
- * Runs cleanup actions defined in eval case YAML files.
+ * Runs cleanup actions defined in eval case YAML files, in order, and
+ * reports the outcome of each one so failures can be surfaced in the run
+ * summary.
  */
 
-import { MongoClient } from "mongodb";
-import type { EvalCaseCleanup } from "../schemas/evalCase.js";
+import { BSON, MongoClient, type Collection, type Document } from "mongodb";
+import type { CleanupAction, EvalCaseCleanup } from "../schemas/evalCase.js";
 
 /**
- * Run cleanup actions for an eval case.
- *
- * @param cleanup - Cleanup configuration from the eval case
- * @param maxWaitSeconds - Maximum time to wait for async operations (default: 60)
+ * Outcome of one cleanup action.
  */
-export async function runCleanup(
-  cleanup: EvalCaseCleanup | undefined,
-  maxWaitSeconds: number = 60
-): Promise<void> {
-  if (!cleanup) return;
-
-  if (cleanup.dropSearchIndex) {
-    await dropSearchIndex(
-      cleanup.dropSearchIndex.database,
-      cleanup.dropSearchIndex.collection,
-      cleanup.dropSearchIndex.indexName,
-      maxWaitSeconds
-    );
+export interface CleanupOutcome {
+  /** Action name, e.g. "dropCollection" */
+  action: CleanupAction["action"];
+  /** What the action applied to, e.g. "sample_mflix.movies" */
+  target: string;
+  status: "succeeded" | "failed" | "skipped";
+  /** What the action did (e.g. "not found"), the error if it failed, or why it was skipped */
+  message: string;
+}
+
+/**
+ * The actions of a cleanup, in the order they run: dropSearchIndex first,
+ * then the actions list.
+ */
+export function cleanupActions(cleanup: EvalCaseCleanup | undefined): CleanupAction[] {
+  if (!cleanup) return [];
+  const { dropSearchIndex } = cleanup;
+  return [
+    ...(dropSearchIndex ? [{ action: "dropSearchIndex" as const, ...dropSearchIndex }] : []),
+    ...(cleanup.actions ?? []),
+  ];
+}
+
+function actionTarget(action: CleanupAction): string {
+  switch (action.action) {
+    case "dropDatabase":
+      return action.database;
+    case "dropIndex":
+    case "dropSearchIndex":
+      return `${action.database}.${action.collection} index "${action.indexName}"`;
+    default:
+      return `${action.database}.${action.collection}`;
   }
 }
 
 /**
- * Drop a search index and wait for it to be fully removed.
+ * Run cleanup actions for an eval case.
  *
- * Note: Dropping search indexes is asynchronous on Atlas, so we poll
- * until the index is actually gone before returning.
+ * Each action runs even if an earlier one failed. Outcomes are logged and
+ * returned; errors are never thrown.
+ *
+ * @param cleanup - Cleanup configuration from the eval case
+ * @param maxWaitSeconds - Maximum time to wait for async operations (default: the
+ *   cleanup's maxWaitSeconds, or 60)
+ * @returns The outcome of each action (skipped if MONGODB_URI isn't set)
  */
-export async function dropSearchIndex(
-  database: string,
-  collection: string,
-  indexName: string,
-  maxWaitSeconds: number = 60
-): Promise<void> {
+export async function runCleanup(
+  cleanup: EvalCaseCleanup | undefined,
+  maxWaitSeconds: number = cleanup?.maxWaitSeconds ?? 60
+): Promise<CleanupOutcome[]> {
+  const actions = cleanupActions(cleanup);
+  if (actions.length === 0) return [];
+
   const uri = process.env.MONGODB_URI;
   if (!uri) {
-    console.warn("[Cleanup] Cannot cleanup: MONGODB_URI not set");
-    return;
+    return actions.map((action) => {
+      const outcome: CleanupOutcome = {
+        action: action.action,
+        target: actionTarget(action),
+        status: "skipped",
+        message: "MONGODB_URI not set",
+      };
+      logOutcome(outcome);
+      return outcome;
+    });
   }
 
-  let client: MongoClient | null = null;
+  const outcomes: CleanupOutcome[] = [];
+  const client = new MongoClient(uri);
 
   try {
-    client = new MongoClient(uri);
     await client.connect();
 
-    const db = client.db(database);
-    const coll = db.collection(collection);
+    for (const action of actions) {
+      let outcome: CleanupOutcome;
+      try {
+        const message = await runAction(client, action, maxWaitSeconds);
+        outcome = { action: action.action, target: actionTarget(action), status: "succeeded", message };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outcome = { action: action.action, target: actionTarget(action), status: "failed", message };
+      }
+      logOutcome(outcome);
+      outcomes.push(outcome);
+    }
+  } catch (error) {
+    // Couldn't connect: every action failed
+    const message = error instanceof Error ? error.message : String(error);
+    for (const action of actions.slice(outcomes.length)) {
+      const outcome: CleanupOutcome = { action: action.action, target: actionTarget(action), status: "failed", message };
+      logOutcome(outcome);
+      outcomes.push(outcome);
+    }
+  } finally {
+    await client.close();
+  }
 
-    // Check if index exists
-    const indexes = await coll.listSearchIndexes().toArray();
-    const existingIndex = indexes.find((idx) => idx.name === indexName);
+  return outcomes;
+}
 
-    if (!existingIndex) {
-      return; // Index doesn't exist, nothing to clean up
+function logOutcome({ action, target, status, message }: CleanupOutcome): void {
+  if (status !== "succeeded") {
+    console.warn(`[Cleanup] ${action} ${target} ${status}: ${message}`);
+  } else {
+    console.log(`[Cleanup] ${action} ${target}: ${message}`);
+  }
+}
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/** Run an action and describe what it did; throws if it failed */
+async function runAction(client: MongoClient, action: CleanupAction, maxWaitSeconds: number): Promise<string> {
+  switch (action.action) {
+    case "dropCollection": {
+      const { database, collection } = action;
+      if (!(await collectionExists(client, database, collection))) return "not found";
+      await client.db(database).collection(collection).drop();
+      return "dropped";
     }
 
-    // Drop the index
-    await coll.dropSearchIndex(indexName);
+    case "dropDatabase":
+      await client.db(action.database).dropDatabase();
+      return "dropped";
 
-    // Poll until the index is gone
-    const startTime = Date.now();
-    const maxWaitMs = maxWaitSeconds * 1000;
+    case "dropIndex": {
+      const { database, collection, indexName } = action;
+      const coll = client.db(database).collection(collection);
+      if (!(await collectionExists(client, database, collection)) || !(await coll.indexExists(indexName))) {
+        return "not found";
+      }
+      await coll.dropIndex(indexName);
+      return "dropped";
+    }
 
-    while (Date.now() - startTime < maxWaitMs) {
-      const currentIndexes = await coll.listSearchIndexes().toArray();
-      const stillExists = currentIndexes.some((idx) => idx.name === indexName);
+    case "deleteMany": {
+      const { database, collection, filter } = action;
+      const result = await client
+        .db(database)
+        .collection(collection)
+        .deleteMany(BSON.EJSON.deserialize(filter));
+      return `deleted ${result.deletedCount} document(s)`;
+    }
 
-      if (!stillExists) {
-        return; // Index is gone
-      }
+    case "dropSearchIndex": {
+      const { database, collection, indexName } = action;
+      const coll = client.db(database).collection(collection);
+      const indexes = await coll.listSearchIndexes().toArray();
+      if (!indexes.some((idx) => idx.name === indexName)) return "not found";
 
-      // Wait before polling again
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      await dropSearchIndexesAndWait(coll, [indexName], maxWaitSeconds);
+      return "dropped";
     }
 
-    console.warn(
-      `[Cleanup] Timeout waiting for index "${indexName}" to be dropped`
-    );
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.warn(`[Cleanup] Error dropping index: ${message}`);
-  } finally {
-    if (client) {
-      await client.close();
+    case "dropAllSearchIndexes": {
+      const { database, collection } = action;
+      if (!(await collectionExists(client, database, collection))) return "not found";
+
+      const coll = client.db(database).collection(collection);
+      const names = (await coll.listSearchIndexes().toArray()).map((idx) => idx.name as string);
+      if (names.length === 0) return "no search indexes";
+
+      await dropSearchIndexesAndWait(coll, names, maxWaitSeconds);
+      return `dropped ${names.length} search index(es)`;
+    }
+  }
+}
+
+async function collectionExists(client: MongoClient, database: string, collection: string): Promise<boolean> {
+  const found = await client.db(database).listCollections({ name: collection }, { nameOnly: true }).toArray();
+  return found.length > 0;
+}
+
+/**
+ * Drop search indexes and wait for them to be fully removed.
+ *
+ * Note: Dropping search indexes is asynchronous on Atlas, so we poll
+ * until the indexes are actually gone before returning.
+ *
+ * @throws Error if they are still there after maxWaitSeconds
+ */
+async function dropSearchIndexesAndWait(
+  coll: Collection<Document>,
+  indexNames: string[],
+  maxWaitSeconds: number
+): Promise<void> {
+  for (const indexName of indexNames) {
+    await coll.dropSearchIndex(indexName);
+  }
+
+  // Poll until the indexes are gone
+  const startTime = Date.now();
+  const maxWaitMs = maxWaitSeconds * 1000;
+
+  while (Date.now() - startTime < maxWaitMs) {
+    const currentIndexes = await coll.listSearchIndexes().toArray();
+    if (!currentIndexes.some((idx) => indexNames.includes(idx.name as string))) {
+      return;
     }
+
+    // Wait before polling again
+    await new Promise((resolve) => setTimeout(resolve, 2000));
   }
+
+  throw new Error(`Timeout waiting for search index(es) ${indexNames.join(", ")} to be dropped after ${maxWaitSeconds}s`);
 }
 
+/**
+ * Drop a search index and wait for it to be fully removed.
+ *
+ * Errors are logged rather than thrown.
+ */
+export async function dropSearchIndex(
+  database: string,
+  collection: string,
+  indexName: string,
+  maxWaitSeconds: number = 60
+): Promise<void> {
+  await runCleanup({ actions: [{ action: "dropSearchIndex", database, collection, indexName }] }, maxWaitSeconds);
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as vm from "vm";
+import { executeMongoDBCode, toCommonJS } from "./code-executor.js";
+
+const ESM_SNIPPET = `import { MongoClient } from "mongodb";
+
+const client = new MongoClient(process.env.MONGODB_URI);
+await client.connect();
+const result = await client.db("admin").command({ ping: 1 });
+console.log(result.ok);
+await client.close();
+`;
+
+describe("toCommonJS", () => {
+  it("converts import statements to require calls", () => {
+    const code = toCommonJS(ESM_SNIPPET);
+    assert.doesNotMatch(code, /^import /m);
+    assert.match(code, /require\("mongodb"\)/);
+  });
+
+  it("leaves script code unchanged", () => {
+    const code = `const { MongoClient } = require("mongodb");\nconsole.log(MongoClient);\n`;
+    assert.equal(toCommonJS(code), code);
+  });
+
+  it("produces code the sandbox can run", async () => {
+    class MongoClient {
+      async connect() {}
+      db() {
+        return { command: async () => ({ ok: 1 }) };
+      }
+      async close() {}
+    }
+    const logged: unknown[] = [];
+    const context = vm.createContext({
+      require: (name: string) => (name === "mongodb" ? { MongoClient } : undefined),
+      process: { env: { MONGODB_URI: "mongodb://localhost" } },
+      console: { log: (value: unknown) => logged.push(value) },
+    });
+
+    const wrapped = `(async () => {\n${toCommonJS(ESM_SNIPPET)}\n})()`;
+    await new vm.Script(wrapped).runInContext(context);
+    assert.deepEqual(logged, [1]);
+  });
+});
+
+describe("executeMongoDBCode", () => {
+  it("runs ES module code", { skip: !process.env.MONGODB_URI && "MONGODB_URI not set" }, async () => {
+    const result = await executeMongoDBCode(ESM_SNIPPET);
+    assert.equal(result.success, true, result.error);
+  });
+});
@@ -1,5 +1,8 @@
 import { MongoClient } from "mongodb";
+import { createRequire } from "module";
 import * as vm from "vm";
+import ts from "typescript";
+import { createRedirectingMongoClient, type DatabaseRedirects } from "./db-isolation.js";
 
 /**
  * Utility for executing and validating generated MongoDB code
@@ -10,8 +13,48 @@ export interface ExecutionResult {
   error?: string;
   output?: any;
   executionTime?: number;
+  /** Number of times the code was run (only set when it was retried) */
+  attempts?: number;
 }
 
+/** Compiler options for converting generated code to CommonJS for the sandbox */
+export const COMMONJS_TRANSPILE_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2022,
+  esModuleInterop: true,
+};
+
+/**
+ * Convert ES module code (import/export statements) to CommonJS, which the
+ * sandbox runs. Other code is returned unchanged.
+ */
+export function toCommonJS(code: string): string {
+  const sourceFile = ts.createSourceFile("generated-code.js", code, ts.ScriptTarget.Latest, false, ts.ScriptKind.JS);
+  if (!ts.isExternalModule(sourceFile)) return code;
+
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: COMMONJS_TRANSPILE_OPTIONS,
+    fileName: "generated-code.js",
+  });
+  // CommonJS output writes to exports
+  return `const exports = {};\nconst module = { exports };\n${outputText}`;
+}
+
+/**
+ * Per-case settings for executing generated code
+ */
+export interface ExecutionOptions {
+  /** Database names to redirect to isolated copies (see db-isolation.ts) */
+  databaseRedirects?: DatabaseRedirects;
+  /** Node.js modules the code may require besides mongodb */
+  allowedModules?: string[];
+  /** Extra environment variables for the code (MONGODB_URI always wins) */
+  env?: Record<string, string>;
+}
+
+/** Loads modules the eval case allows, resolved from the harness's node_modules */
+const moduleRequire = createRequire(import.meta.url);
+
 /**
  * Clean up any search indexes created during testing
  * This prevents duplicate index errors when running multiple tests
@@ -104,16 +147,21 @@ export async function cleanupSearchIndexes(
  *
  * @param code - The generated code to execute
  * @param connectionString - MongoDB connection string (optional, uses env var if not provided)
- * @param timeout - Execution timeout in milliseconds (default: 30000)
+ * @param timeout - Execution timeout in milliseconds, including async work (default: 30000)
+ * @param options - Database redirects, allowed modules and environment variables
  * @returns ExecutionResult with success status and output or error
  */
 export async function executeMongoDBCode(
   code: string,
   connectionString?: string,
-  timeout: number = 30000
+  timeout: number = 30000,
+  options: ExecutionOptions = {}
 ): Promise<ExecutionResult> {
+  const { databaseRedirects, allowedModules = [], env } = options;
   const startTime = Date.now();
-  let client: MongoClient | null = null;
+  // Every client created for the code, including the code's own, so all are closed at the end
+  const clients: MongoClient[] = [];
+  let timer: NodeJS.Timeout | undefined;
 
   try {
     // Get connection string from environment or parameter
@@ -126,13 +174,24 @@ export async function executeMongoDBCode(
       };
     }
 
+    // Generated code gets a MongoClient that redirects to isolated databases, if any
+    const BaseMongoClient = databaseRedirects && Object.keys(databaseRedirects).length > 0
+      ? createRedirectingMongoClient(databaseRedirects)
+      : MongoClient;
+    const SandboxMongoClient = class extends BaseMongoClient {
+      constructor(...args: ConstructorParameters<typeof MongoClient>) {
+        super(...args);
+        clients.push(this);
+      }
+    };
+
     // Create MongoDB client
-    client = new MongoClient(uri);
+    const client = new SandboxMongoClient(uri);
     await client.connect();
 
     // Create a sandbox context with MongoDB client and common utilities
     const sandbox = {
-      MongoClient,
+      MongoClient: SandboxMongoClient,
       client,
       console: {
         log: (...args: any[]) => console.log("[Generated Code]", ...args),
@@ -141,13 +200,17 @@ export async function executeMongoDBCode(
       require: (module: string) => {
         // Only allow specific modules
         if (module === "mongodb") {
-          return { MongoClient };
+          return { MongoClient: SandboxMongoClient };
+        }
+        if (allowedModules.includes(module)) {
+          return moduleRequire(module);
         }
         throw new Error(`Module '${module}' is not allowed in sandbox`);
       },
       process: {
         env: {
           ...process.env,
+          ...env,
           MONGODB_URI: uri, // Explicitly set MONGODB_URI in sandbox
         },
       },
@@ -163,6 +226,9 @@ export async function executeMongoDBCode(
 
 
 
+    // ES module output (e.g. from the esm template) can't run in a script
+    code = toCommonJS(code);
+
     // Wrap code in an async function
     // Detect if code ends with a function call that's not awaited and await it
     // Common pattern: "functionName();" at the end
@@ -193,9 +259,17 @@ export async function executeMongoDBCode(
       filename: "generated-code.js",
     });
 
-    const result = await script.runInContext(context, {
-      timeout,
+    // The VM timeout only covers synchronous code, so also bound the
+    // returned promise. Closing the clients aborts pending operations.
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        void closeClients(clients).then(() => reject(new Error(`Execution timed out after ${timeout}ms`)));
+      }, timeout);
     });
+    const result = await Promise.race([
+      script.runInContext(context, { timeout }),
+      timedOut,
+    ]);
     const executionTime = Date.now() - startTime;
 
     return {
@@ -211,13 +285,19 @@ export async function executeMongoDBCode(
       executionTime,
     };
   } finally {
-    // Clean up MongoDB connection
-    if (client) {
-      try {
-        await client.close();
-      } catch (e) {
-        console.error("Error closing MongoDB connection:", e);
-      }
+    clearTimeout(timer);
+
+    // Clean up MongoDB connections
+    await closeClients(clients);
+  }
+}
+
+async function closeClients(clients: MongoClient[]): Promise<void> {
+  for (const client of clients) {
+    try {
+      await client.close();
+    } catch (e) {
+      console.error("Error closing MongoDB connection:", e);
     }
   }
 }
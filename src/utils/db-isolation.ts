@@ -0,0 +1,219 @@
+/**
+ * Per-row database isolation.
+ *
+ * Eval cases share databases such as sample_mflix and reuse the same index
+ * names, so rows can only run concurrently if each one works on its own
+ * copy. An isolated namespace clones the databases an eval case touches
+ * into suffixed databases (e.g. sample_mflix -> sample_mflix_3f9a1c2e).
+ * Generated code is redirected to the copies at execution time, setup,
+ * assertions and cleanup are rewritten to match, and the copies are dropped
+ * afterwards.
+ */
+
+import { createHash } from "crypto";
+import { MongoClient } from "mongodb";
+import type { EvalCase, EvalCaseCleanup, EvalCaseExpected, EvalCaseSetup } from "../schemas/evalCase.js";
+import { cleanupActions } from "./cleanup.js";
+
+/** Maps original database names to their isolated copies */
+export type DatabaseRedirects = Record<string, string>;
+
+/**
+ * Collections referenced by an eval case's setup, assertions and cleanup,
+ * grouped by database. A database dropped by cleanup is included even if
+ * none of its collections are referenced. Isolation copies these databases.
+ */
+export function getCaseCollections(evalCase: EvalCase): Map<string, Set<string>> {
+  const setup = evalCase.setup;
+  const references: Array<{ database: string; collection?: string } | undefined> = [
+    ...(setup?.createCollections ?? []),
+    ...(setup?.insertDocuments ?? []),
+    ...(setup?.createIndexes ?? []),
+    ...(setup?.createSearchIndexes ?? []),
+    evalCase.expected.result?.searchIndexExists,
+    ...cleanupActions(evalCase.cleanup),
+  ];
+
+  const collections = new Map<string, Set<string>>();
+  for (const reference of references) {
+    if (!reference) continue;
+    const names = collections.get(reference.database) ?? new Set<string>();
+    if (reference.collection) names.add(reference.collection);
+    collections.set(reference.database, names);
+  }
+  return collections;
+}
+
+/**
+ * Name of the isolated copy of a database.
+ *
+ * The suffix is a short hash of the namespace ID, which keeps names well
+ * under MongoDB's database name length limit.
+ */
+export function isolatedDatabaseName(database: string, namespaceId: string): string {
+  const suffix = createHash("sha256").update(namespaceId).digest("hex").slice(0, 8);
+  return `${database}_${suffix}`;
+}
+
+/**
+ * Create an isolated namespace for an eval case row.
+ *
+ * Every collection in each database the case references is copied
+ * server-side with $out, so generated code sees the same data as without
+ * isolation. Indexes (including search indexes) and views are not copied.
+ *
+ * @param evalCase - The eval case whose collections should be cloned
+ * @param namespaceId - Unique ID for the row (e.g. run, experiment, case and sample)
+ * @returns Redirects from the original database names to their copies
+ */
+export async function createIsolatedNamespace(
+  evalCase: EvalCase,
+  namespaceId: string
+): Promise<DatabaseRedirects> {
+  const databases = [...getCaseCollections(evalCase).keys()];
+  if (databases.length === 0) return {};
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.warn("[Isolation] Cannot isolate: MONGODB_URI not set");
+    return {};
+  }
+
+  const redirects: DatabaseRedirects = {};
+  const client = new MongoClient(uri);
+
+  try {
+    await client.connect();
+
+    for (const database of databases) {
+      const target = isolatedDatabaseName(database, namespaceId);
+      redirects[database] = target;
+
+      const collections = await client
+        .db(database)
+        .listCollections({ type: "collection" }, { nameOnly: true })
+        .toArray();
+      for (const { name: collection } of collections) {
+        if (collection.startsWith("system.")) continue;
+        await client
+          .db(database)
+          .collection(collection)
+          .aggregate([{ $out: { db: target, coll: collection } }])
+          .toArray();
+      }
+    }
+  } catch (error) {
+    // Don't leave partial copies behind
+    await dropIsolatedNamespace(redirects);
+    throw error;
+  } finally {
+    await client.close();
+  }
+
+  return redirects;
+}
+
+/**
+ * Drop the databases of an isolated namespace.
+ *
+ * Dropping a database also removes its collections' search indexes, so no
+ * separate cleanup is needed.
+ */
+export async function dropIsolatedNamespace(redirects: DatabaseRedirects): Promise<void> {
+  const databases = Object.values(redirects);
+  if (databases.length === 0) return;
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.warn("[Isolation] Cannot drop isolated databases: MONGODB_URI not set");
+    return;
+  }
+
+  let client: MongoClient | null = null;
+
+  try {
+    client = new MongoClient(uri);
+    await client.connect();
+
+    for (const database of databases) {
+      await client.db(database).dropDatabase();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Isolation] Error dropping isolated databases ${databases.join(", ")}: ${message}`);
+  } finally {
+    if (client) {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Rewrite the database references in expected assertions.
+ */
+export function redirectExpected(expected: EvalCaseExpected, redirects: DatabaseRedirects): EvalCaseExpected {
+  const searchIndexExists = expected.result?.searchIndexExists;
+  if (!searchIndexExists) return expected;
+
+  return {
+    ...expected,
+    result: {
+      ...expected.result,
+      searchIndexExists: {
+        ...searchIndexExists,
+        database: redirects[searchIndexExists.database] ?? searchIndexExists.database,
+      },
+    },
+  };
+}
+
+/**
+ * Rewrite the database references in cleanup actions.
+ */
+export function redirectCleanup(cleanup: EvalCaseCleanup, redirects: DatabaseRedirects): EvalCaseCleanup {
+  if (!cleanup) return cleanup;
+
+  const redirect = <T extends { database: string }>(action: T): T => ({
+    ...action,
+    database: redirects[action.database] ?? action.database,
+  });
+  return {
+    ...cleanup,
+    dropSearchIndex: cleanup.dropSearchIndex && redirect(cleanup.dropSearchIndex),
+    actions: cleanup.actions?.map(redirect),
+  };
+}
+
+/**
+ * Rewrite the database references in setup actions.
+ */
+export function redirectSetup(setup: EvalCaseSetup, redirects: DatabaseRedirects): EvalCaseSetup {
+  if (!setup) return setup;
+
+  const redirect = <T extends { database: string }>(action: T): T => ({
+    ...action,
+    database: redirects[action.database] ?? action.database,
+  });
+  return {
+    ...setup,
+    createCollections: setup.createCollections?.map(redirect),
+    insertDocuments: setup.insertDocuments?.map(redirect),
+    createIndexes: setup.createIndexes?.map(redirect),
+    createSearchIndexes: setup.createSearchIndexes?.map(redirect),
+  };
+}
+
+/**
+ * Create a MongoClient class whose db() calls are redirected to isolated
+ * databases. Passed to generated code in place of MongoClient.
+ */
+export function createRedirectingMongoClient(redirects: DatabaseRedirects): typeof MongoClient {
+  return class RedirectingMongoClient extends MongoClient {
+    override db(...args: Parameters<MongoClient["db"]>): ReturnType<MongoClient["db"]> {
+      const [dbName, options] = args;
+      // Without a name, db() uses the database from the connection string
+      const name = dbName ?? this.options.dbName;
+      return super.db(redirects[name] ?? name, options);
+    }
+  };
+}
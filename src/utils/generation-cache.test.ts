@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { createGenerationCache, generationCacheKey, parseCacheMode } from "./generation-cache.js";
+
+describe("generationCacheKey", () => {
+  it("ignores object key order", () => {
+    assert.equal(
+      generationCacheKey({ model: "gpt-4o", temperature: 0 }),
+      generationCacheKey({ temperature: 0, model: "gpt-4o" })
+    );
+  });
+
+  it("distinguishes variants and message order", () => {
+    const request = { messages: ["a", "b"] };
+    assert.notEqual(generationCacheKey(request, 0), generationCacheKey(request, 1));
+    assert.notEqual(generationCacheKey(request), generationCacheKey({ messages: ["b", "a"] }));
+  });
+});
+
+describe("createGenerationCache", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "generation-cache-"));
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const request = { model: "gpt-4o", prompt: "Write code" };
+
+  it("records in record mode and replays the recording", async () => {
+    const recorder = createGenerationCache({ mode: "record", dir });
+    const recorded = await recorder.getOrGenerate(request, async () => "recorded", 0);
+    assert.equal(recorded.hit, false);
+    assert.equal(recorded.response, "recorded");
+
+    const replayer = createGenerationCache({ mode: "replay", dir });
+    const replayed = await replayer.getOrGenerate(request, async () => assert.fail("should not generate"), 0);
+    assert.equal(replayed.hit, true);
+    assert.equal(replayed.response, "recorded");
+    assert.equal(replayed.key, recorded.key);
+  });
+
+  it("fails on a miss in replay mode", async () => {
+    const replayer = createGenerationCache({ mode: "replay", dir });
+    await assert.rejects(replayer.getOrGenerate(request, async () => "new", 1), /No recorded generation/);
+  });
+
+  it("never writes in off mode", async () => {
+    const offDir = join(dir, "off");
+    const cache = createGenerationCache({ mode: "off", dir: offDir });
+    const lookup = await cache.getOrGenerate(request, async () => "fresh");
+    assert.equal(lookup.hit, false);
+    await assert.rejects(readdir(offDir));
+  });
+});
+
+describe("parseCacheMode", () => {
+  it("defaults to off and rejects unknown modes", () => {
+    assert.equal(parseCacheMode(undefined), "off");
+    assert.equal(parseCacheMode("replay"), "replay");
+    assert.throws(() => parseCacheMode("sometimes"), /Invalid generation cache mode/);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Record-and-replay cache for LLM generations.
+ *
+ * Completions are stored on disk, content-addressed by the request
+ * (model, messages and parameters). In record mode every request calls the
+ * model and overwrites the recording; in replay mode requests are served
+ * from disk and a missing recording is an error, so scorer, executor and
+ * cleanup changes can be evaluated against identical outputs offline.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Cache mode:
+ * - off: always call the model, never touch the cache
+ * - record: always call the model and store the completion
+ * - replay: serve stored completions, fail on a miss
+ */
+export type GenerationCacheMode = "off" | "record" | "replay";
+
+export interface GenerationCacheOptions {
+  /** Cache mode (default: GENERATION_CACHE env var, or "off") */
+  mode?: GenerationCacheMode;
+  /** Directory for recordings (default: GENERATION_CACHE_DIR env var, or ".cache/generations") */
+  dir?: string;
+}
+
+/**
+ * A recorded completion as stored on disk.
+ */
+export interface CachedGeneration<Request = unknown, Response = unknown> {
+  key: string;
+  request: Request;
+  /** Distinguishes repeated samples of the same request */
+  variant?: string | number;
+  response: Response;
+  /** How long the generation took when it was recorded */
+  durationMs?: number;
+  recordedAt: string;
+}
+
+export interface GenerationCache {
+  mode: GenerationCacheMode;
+  dir: string;
+  /**
+   * Return the stored response for a request, or generate and store it,
+   * depending on the cache mode.
+   *
+   * @param request - The request parameters (used to compute the key)
+   * @param generate - Calls the model (not called in replay mode)
+   * @param variant - Optional discriminator for repeated samples of the same request
+   * @returns The response, whether it came from the cache, and how long the
+   *   generation took (when it was recorded, for cache hits)
+   * @throws Error in replay mode if no recording exists
+   */
+  getOrGenerate<Request, Response>(
+    request: Request,
+    generate: () => Promise<Response>,
+    variant?: string | number
+  ): Promise<CacheLookup<Response>>;
+}
+
+/** Result of GenerationCache.getOrGenerate() */
+export interface CacheLookup<Response> {
+  response: Response;
+  key: string;
+  hit: boolean;
+  /** Undefined for recordings made before durations were stored */
+  durationMs?: number;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equivalent
+ * requests always produce the same key.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === "object" && !Array.isArray(val)) {
+      return Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return val;
+  });
+}
+
+/**
+ * Compute the content-addressed key for a request.
+ */
+export function generationCacheKey(request: unknown, variant?: string | number): string {
+  return createHash("sha256").update(stableStringify({ request, variant })).digest("hex");
+}
+
+/**
+ * Create a generation cache.
+ */
+export function createGenerationCache(options: GenerationCacheOptions = {}): GenerationCache {
+  const mode = options.mode ?? parseCacheMode(process.env.GENERATION_CACHE);
+  const dir = options.dir ?? process.env.GENERATION_CACHE_DIR ?? ".cache/generations";
+
+  return {
+    mode,
+    dir,
+    async getOrGenerate<Request, Response>(
+      request: Request,
+      generate: () => Promise<Response>,
+      variant?: string | number
+    ): Promise<CacheLookup<Response>> {
+      const key = generationCacheKey(request, variant);
+      const filePath = join(dir, `${key}.json`);
+
+      if (mode === "replay") {
+        let content: string;
+        try {
+          content = await readFile(filePath, "utf-8");
+        } catch {
+          throw new Error(
+            `[Cache] No recorded generation for key ${key} in ${dir} (replay mode). Run in record mode first.`
+          );
+        }
+        const cached = JSON.parse(content) as CachedGeneration<Request, Response>;
+        return { response: cached.response, key, hit: true, durationMs: cached.durationMs };
+      }
+
+      const startTime = Date.now();
+      const response = await generate();
+      const durationMs = Date.now() - startTime;
+
+      if (mode === "record") {
+        const cached: CachedGeneration<Request, Response> = {
+          key,
+          request,
+          variant,
+          response,
+          durationMs,
+          recordedAt: new Date().toISOString(),
+        };
+        await mkdir(dir, { recursive: true });
+        await writeFile(filePath, JSON.stringify(cached, null, 2), "utf-8");
+      }
+
+      return { response, key, hit: false, durationMs };
+    },
+  };
+}
+
+/**
+ * Parse a cache mode string (e.g., from an environment variable).
+ *
+ * @throws Error if the value is not a valid mode
+ */
+export function parseCacheMode(value: string | undefined): GenerationCacheMode {
+  if (!value) return "off";
+  if (value === "off" || value === "record" || value === "replay") return value;
+  throw new Error(`Invalid generation cache mode "${value}". Expected off, record or replay.`);
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addUsage, createGenerationUsage, estimateCost, getModelPrice, type ModelPriceTable } from "./generation-usage.js";
+
+const PRICES: ModelPriceTable = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+};
+
+describe("getModelPrice", () => {
+  it("matches exact names", () => {
+    assert.deepEqual(getModelPrice("gpt-4o", PRICES), { input: 2.5, output: 10 });
+  });
+
+  it("gives dated versions their family price", () => {
+    assert.deepEqual(getModelPrice("gpt-4o-2024-08-06", PRICES), { input: 2.5, output: 10 });
+    assert.deepEqual(getModelPrice("claude-sonnet-4-5-20250929", PRICES), { input: 3, output: 15 });
+  });
+
+  it("doesn't give other variants the family price", () => {
+    assert.equal(getModelPrice("gpt-4o-mini", PRICES), undefined);
+    assert.equal(getModelPrice("gpt-4.1-nano", PRICES), undefined);
+    assert.equal(getModelPrice("gpt-4.1-nano-2025-04-14", PRICES), undefined);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices tokens per million", () => {
+    assert.equal(estimateCost("gpt-4.1", 1_000_000, 500_000, PRICES), 6);
+  });
+
+  it("is null for unpriced models", () => {
+    assert.equal(estimateCost("unknown-model", 10, 10, PRICES), null);
+  });
+});
+
+describe("createGenerationUsage", () => {
+  it("makes the cost unknown when the response reports no usage", () => {
+    const usage = createGenerationUsage("gpt-4o", undefined, 10, PRICES);
+    assert.equal(usage.totalTokens, 0);
+    assert.equal(usage.estimatedCost, null);
+  });
+});
+
+describe("addUsage", () => {
+  it("makes the cost unknown if either cost is", () => {
+    const usage = { generations: 1, promptTokens: 1, completionTokens: 1, totalTokens: 2, latencyMs: 5 };
+    const sum = addUsage({ ...usage, estimatedCost: 0.5 }, { ...usage, estimatedCost: null });
+    assert.equal(sum.generations, 2);
+    assert.equal(sum.totalTokens, 4);
+    assert.equal(sum.estimatedCost, null);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Token usage, latency and cost tracking for generations.
+ *
+ * Costs are estimates from a per-model price table (USD per million tokens).
+ * The built-in table can be extended or overridden per run, e.g. for models
+ * that aren't listed or negotiated prices.
+ */
+
+import { readFileSync } from "fs";
+import type { CompletionUsage } from "openai/resources/completions";
+import { z } from "zod";
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Prices keyed by model name */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/**
+ * Built-in list prices (USD per million tokens).
+ * Check these against the provider's pricing page before relying on them.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+};
+
+/**
+ * Usage of one or more generations.
+ */
+export interface GenerationUsage {
+  /** Number of generations included */
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Wall-clock time spent waiting for the model */
+  latencyMs: number;
+  /** Estimated cost in USD (null if the model has no price) */
+  estimatedCost: number | null;
+}
+
+const ModelPriceTableSchema = z.record(
+  z.string(),
+  z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+  })
+);
+
+/**
+ * Load a price table from a JSON file, e.g.
+ * `{ "gpt-4o": { "input": 2.5, "output": 10 } }`.
+ *
+ * @throws Error if the file can't be read or doesn't match the expected shape
+ */
+export function loadModelPrices(filePath: string): ModelPriceTable {
+  const result = ModelPriceTableSchema.safeParse(JSON.parse(readFileSync(filePath, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid price table in ${filePath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/** A date suffix of a model version, e.g. "-2024-08-06" or "-20250929" */
+const VERSION_SUFFIX = /^-(\d{4}-\d{2}-\d{2}|\d{8})$/;
+
+/**
+ * Look up the price of a model.
+ *
+ * Exact names match first; otherwise a name followed only by a date suffix
+ * matches, so dated versions (e.g., "claude-sonnet-4-5-20250929") use their
+ * family price. Other variants (e.g., "gpt-4.1-nano") have no price.
+ */
+export function getModelPrice(model: string, prices: ModelPriceTable = DEFAULT_MODEL_PRICES): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+
+  const base = Object.keys(prices).find(
+    (name) => model.startsWith(name) && VERSION_SUFFIX.test(model.slice(name.length))
+  );
+  return base ? prices[base] : undefined;
+}
+
+/**
+ * Estimate the cost of a generation in USD.
+ *
+ * @returns The cost, or null if the model has no price
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices: ModelPriceTable = DEFAULT_MODEL_PRICES
+): number | null {
+  const price = getModelPrice(model, prices);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Build the usage record for a single generation.
+ *
+ * Without usage from the response (e.g. from the fixture client), tokens are
+ * 0 and the cost is unknown.
+ */
+export function createGenerationUsage(
+  model: string,
+  usage: CompletionUsage | undefined,
+  latencyMs: number,
+  prices: ModelPriceTable = DEFAULT_MODEL_PRICES
+): GenerationUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+  return {
+    generations: 1,
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+    latencyMs,
+    estimatedCost: usage ? estimateCost(model, promptTokens, completionTokens, prices) : null,
+  };
+}
+
+/**
+ * Add two usage records. The cost is null if either cost is unknown.
+ */
+export function addUsage(a: GenerationUsage, b: GenerationUsage): GenerationUsage {
+  return {
+    generations: a.generations + b.generations,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    latencyMs: a.latencyMs + b.latencyMs,
+    estimatedCost: a.estimatedCost === null || b.estimatedCost === null ? null : a.estimatedCost + b.estimatedCost,
+  };
+}
@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { getApproach } from "../harness/approaches.js";
+import { lintEvalCaseFiles, type LintIssue } from "./lint-eval-cases.js";
+
+describe("lintEvalCaseFiles", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "lint-"));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  /** Write a YAML file into the temporary directory and return its path */
+  async function yamlFile(name: string, content: string): Promise<string> {
+    const filePath = join(dir, name);
+    await writeFile(filePath, content, "utf-8");
+    return filePath;
+  }
+
+  const summary = (issues: LintIssue[]) =>
+    issues.map(({ rule, severity, line, column }) => `${line}:${column} ${severity} ${rule}`);
+
+  it("reports YAML and schema errors at their location", async () => {
+    const broken = await yamlFile("broken.yml", "- name: [unclosed\n");
+    const invalid = await yamlFile("invalid.yml", "- name: No prompt\n  input: {}\n  expected: {}\n");
+    assert.deepEqual((await lintEvalCaseFiles([broken])).map(({ rule }) => rule), ["yaml"]);
+    assert.deepEqual(summary(await lintEvalCaseFiles([invalid])), ["2:10 error schema"]);
+  });
+
+  it("reports duplicate names across files at the second use", async () => {
+    const first = await yamlFile("first.yml", "- name: Same\n  input: { prompt: p }\n  expected: {}\n");
+    const second = await yamlFile("second.yml", "# comment\n- name: Same\n  input: { prompt: p }\n  expected: {}\n");
+    const issues = await lintEvalCaseFiles([first, second]);
+    assert.deepEqual(summary(issues), ["2:9 error duplicate-name"]);
+    assert.equal(issues[0]?.file, second);
+    assert.match(issues[0]?.message ?? "", /first\.yml:1:9/);
+  });
+
+  it("reports missing skill files as errors only when an approach loads skills", async () => {
+    const filePath = await yamlFile(
+      "skills.yml",
+      "- name: Skills\n  input:\n    prompt: p\n    skillFiles: [missing/SKILL.md]\n  expected: {}\n"
+    );
+    const withSkill = await lintEvalCaseFiles([filePath], { approaches: [getApproach("with-skill")] });
+    const baseline = await lintEvalCaseFiles([filePath], { approaches: [getApproach("baseline")] });
+    assert.deepEqual(summary(withSkill), ["4:18 error missing-skill-file"]);
+    assert.deepEqual(summary(baseline), ["4:18 warning missing-skill-file"]);
+    assert.deepEqual(summary(await lintEvalCaseFiles([filePath])), ["4:18 error missing-skill-file"]);
+  });
+
+  it("reports missing setup document files", async () => {
+    const filePath = await yamlFile(
+      "setup.yml",
+      [
+        "- name: Setup",
+        "  input: { prompt: p }",
+        "  expected: {}",
+        "  setup:",
+        "    insertDocuments:",
+        "      - { database: db, collection: c, file: missing.json }",
+        "",
+      ].join("\n")
+    );
+    assert.deepEqual(summary(await lintEvalCaseFiles([filePath])), ["6:46 error missing-setup-file"]);
+  });
+
+  it("warns about search indexes that no cleanup action drops", async () => {
+    const searchIndexCase = (cleanup: string) =>
+      [
+        "- name: Index",
+        "  input: { prompt: p }",
+        "  expected:",
+        "    result:",
+        "      searchIndexExists: { database: db, collection: c, indexName: default }",
+        cleanup,
+        "",
+      ].join("\n");
+
+    const missing = await yamlFile("no-cleanup.yml", searchIndexCase(""));
+    const dropped = await yamlFile(
+      "drop-collection.yml",
+      searchIndexCase("  cleanup:\n    actions:\n      - { action: dropCollection, database: db, collection: c }")
+    );
+    const wrongIndex = await yamlFile(
+      "wrong-index.yml",
+      searchIndexCase("  cleanup:\n    dropSearchIndex: { database: db, collection: c, indexName: other }")
+    );
+
+    assert.deepEqual(summary(await lintEvalCaseFiles([missing])), ["5:26 warning search-index-cleanup"]);
+    assert.deepEqual(summary(await lintEvalCaseFiles([dropped])), []);
+    assert.deepEqual(summary(await lintEvalCaseFiles([wrongIndex])), ["7:22 warning search-index-cleanup"]);
+  });
+
+  it("reports patterns that are both required and forbidden, unless their match modes can differ", async () => {
+    const patternCase = (required: string, forbidden: string) =>
+      [
+        "- name: Patterns",
+        "  input: { prompt: p }",
+        "  expected:",
+        "    semantic:",
+        `      mustContain: [{ pattern: x, name: Required${required} }]`,
+        `      mustNotContain: [{ pattern: x, name: Forbidden${forbidden} }]`,
+        "",
+      ].join("\n");
+
+    const literal = await yamlFile("literal.yml", patternCase("", ""));
+    // Required outside comments, forbidden anywhere: always contradictory
+    const ignoreComments = await yamlFile("ignore-comments.yml", patternCase(", match: ignoreComments", ""));
+    // Required anywhere (e.g. in a comment), forbidden outside comments: can pass
+    const commentOnly = await yamlFile("comment-only.yml", patternCase("", ", match: ignoreComments"));
+
+    assert.deepEqual(summary(await lintEvalCaseFiles([literal])), ["6:24 error contradictory-pattern"]);
+    assert.deepEqual(summary(await lintEvalCaseFiles([ignoreComments])), ["6:24 error contradictory-pattern"]);
+    assert.deepEqual(summary(await lintEvalCaseFiles([commentOnly])), []);
+  });
+
+  it("flags remote doc links in offline mode without fetching them", async () => {
+    const filePath = await yamlFile(
+      "docs.yml",
+      "- name: Docs\n  input:\n    prompt: p\n    docLink: https://example.com/docs\n  expected: {}\n"
+    );
+    assert.deepEqual(summary(await lintEvalCaseFiles([filePath])), []);
+    assert.deepEqual(summary(await lintEvalCaseFiles([filePath], { offline: true })), ["4:14 warning unreachable-doc-link"]);
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Eval case linter.
+ *
+ * Checks YAML eval case files for problems that schema validation can't
+ * catch, before a run spends tokens on them. Every issue points at the
+ * line and column of the offending YAML node (or the file default it came
+ * from).
+ *
+ * Rules:
+ * 1. yaml / schema: YAML syntax errors and schema violations
+ * 2. missing-skill-file: skillFiles entries that don't exist (warnings when no selected approach loads skills)
+ * 3. missing-setup-file: setup.insertDocuments files that don't exist
+ * 4. duplicate-name: case names used more than once
+ * 5. search-index-cleanup: result.searchIndexExists without a cleanup action that drops the index
+ * 6. contradictory-pattern: patterns in both mustContain and mustNotContain (with match modes that always agree)
+ * 7. unreachable-doc-link: docLinks that can't be fetched (only checked on request)
+ *
+ * Rules 5 and 6 check the case's expected and each turn's expected.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { isMap, isSeq, LineCounter, parseDocument, type Document } from "yaml";
+import {
+  EvalCaseFileSchema,
+  EvalCaseSchema,
+  type CleanupAction,
+  type EvalCase,
+  type EvalCaseExpected,
+  type Pattern,
+} from "../schemas/evalCase.js";
+import { cleanupActions } from "./cleanup.js";
+import { expandEvalCaseFile } from "./loadEvalCases.js";
+import { resolveSkillBaseDir } from "./read-skill-file.js";
+import { loadsSkills } from "../harness/approaches.js";
+import type { Approach } from "../harness/types.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LintSeverity = "error" | "warning";
+
+/** A problem found in an eval case file */
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  file: string;
+  /** 1-based position of the YAML node the issue is about */
+  line: number;
+  column: number;
+  /** Name of the case the issue is about (unset for file-level issues) */
+  caseName?: string;
+}
+
+export interface LintOptions {
+  /** Fetch each docLink and flag the ones that fail (default: false) */
+  checkDocLinks?: boolean;
+  /**
+   * Lint for a run without network access: docLinks on other hosts than
+   * localhost are flagged as unreachable without fetching them
+   */
+  offline?: boolean;
+  /** Timeout for each docLink request in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Skills root relative skill paths resolve against (default: each YAML file's directory) */
+  skillsRoot?: string;
+  /**
+   * Approaches the cases will run with. Missing skill files are errors only
+   * if one of them loads skills, and warnings otherwise (default: errors)
+   */
+  approaches?: Approach[];
+}
+
+/** A rule violation in a case, located by its key path within the case */
+interface CaseFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  at: PathSegment[];
+}
+
+type PathSegment = string | number;
+
+interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/** A parsed YAML file with line/column lookup */
+interface SourceFile {
+  path: string;
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+// =============================================================================
+// LOCATIONS
+// =============================================================================
+
+/**
+ * Split a loader path such as "cases.2[mapping=static].input" into key
+ * segments, dropping matrix parameter suffixes.
+ */
+function parsePath(path: string): PathSegment[] {
+  return path
+    .replace(/\[[^\]]*\]/g, "")
+    .split(".")
+    .filter(Boolean)
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Find the deepest node along a key path.
+ *
+ * @returns The node and how many segments of the path were found
+ */
+function findNode(source: SourceFile, path: PathSegment[]): { node: unknown; depth: number } {
+  let node: unknown = source.doc.contents;
+  let depth = 0;
+  for (const segment of path) {
+    const next: unknown = isMap(node)
+      ? node.get(String(segment), true)
+      : isSeq(node)
+        ? node.get(Number(segment), true)
+        : undefined;
+    if (next === undefined) break;
+    node = next;
+    depth++;
+  }
+  return { node, depth };
+}
+
+function nodeLocation(source: SourceFile, node: unknown): SourceLocation {
+  const offset = (node as { range?: [number, number, number] } | null)?.range?.[0] ?? 0;
+  const { line, col } = source.lineCounter.linePos(offset);
+  return { line, column: col };
+}
+
+/**
+ * Locate a key path in the file (the deepest existing node along it).
+ */
+function locate(source: SourceFile, path: PathSegment[]): SourceLocation {
+  return nodeLocation(source, findNode(source, path).node);
+}
+
+/**
+ * Locate a key path within a case. Values inherited from the file's
+ * defaults are located in the defaults block.
+ */
+function locateInCase(source: SourceFile, casePath: PathSegment[], keyPath: PathSegment[]): SourceLocation {
+  const inCase = findNode(source, [...casePath, ...keyPath]);
+  if (inCase.depth < casePath.length + keyPath.length) {
+    const inDefaults = findNode(source, ["defaults", ...keyPath]);
+    if (keyPath.length > 0 && inDefaults.depth === keyPath.length + 1) {
+      return nodeLocation(source, inDefaults.node);
+    }
+  }
+  return nodeLocation(source, inCase.node);
+}
+
+// =============================================================================
+// CASE RULES
+// =============================================================================
+
+/** Skill paths resolve the same way the harness reads them */
+function missingSkillFiles(evalCase: EvalCase, options: LintOptions): CaseFinding[] {
+  const { skillFiles } = evalCase.input;
+  const paths = skillFiles === undefined ? [] : Array.isArray(skillFiles) ? skillFiles : [skillFiles];
+  const baseDir = resolveSkillBaseDir(evalCase.sourceFile, options.skillsRoot);
+  const severity = options.approaches === undefined || options.approaches.some(loadsSkills)
+    ? "error" as const
+    : "warning" as const;
+
+  return paths.flatMap((path, index) => {
+    const resolvedPath = resolve(baseDir, path);
+    return existsSync(resolvedPath)
+      ? []
+      : [{
+          rule: "missing-skill-file",
+          severity,
+          message: `Skill file not found: ${path}${resolvedPath === path ? "" : ` (resolved to ${resolvedPath})`}`,
+          at: Array.isArray(skillFiles) ? ["input", "skillFiles", index] : ["input", "skillFiles"],
+        }];
+  });
+}
+
+/** Document files resolve against the case's YAML file, as the harness reads them */
+function missingSetupFiles(evalCase: EvalCase): CaseFinding[] {
+  const baseDir = evalCase.sourceFile ? dirname(evalCase.sourceFile) : process.cwd();
+
+  return (evalCase.setup?.insertDocuments ?? []).flatMap(({ file }, index) => {
+    if (!file) return [];
+    const resolvedPath = resolve(baseDir, file);
+    return existsSync(resolvedPath)
+      ? []
+      : [{
+          rule: "missing-setup-file",
+          severity: "error" as const,
+          message: `Setup documents file not found: ${file} (resolved to ${resolvedPath})`,
+          at: ["setup", "insertDocuments", index, "file"],
+        }];
+  });
+}
+
+/**
+ * The case's assertions and those of each turn of a multi-turn case, with
+ * their key paths.
+ */
+function assertionSets(evalCase: EvalCase): Array<{ expected: EvalCaseExpected; at: PathSegment[] }> {
+  return [
+    { expected: evalCase.expected, at: ["expected"] },
+    ...(evalCase.input.turns ?? []).flatMap((turn, index) =>
+      turn.expected ? [{ expected: turn.expected, at: ["input", "turns", index, "expected"] }] : []
+    ),
+  ];
+}
+
+/** A search index created by the case must be dropped, or later samples find it already there */
+function searchIndexWithoutCleanup(evalCase: EvalCase): CaseFinding[] {
+  return assertionSets(evalCase).flatMap(({ expected, at }) => searchIndexFindings(evalCase, expected, at));
+}
+
+function searchIndexFindings(evalCase: EvalCase, assertions: EvalCaseExpected, at: PathSegment[]): CaseFinding[] {
+  const expected = assertions.result?.searchIndexExists;
+  if (!expected) return [];
+
+  if (cleanupActions(evalCase.cleanup).some((action) => dropsSearchIndex(action, expected))) return [];
+
+  const dropped = evalCase.cleanup?.dropSearchIndex;
+  const target = `${expected.database}.${expected.collection} index "${expected.indexName}"`;
+  if (!dropped) {
+    return [{
+      rule: "search-index-cleanup",
+      severity: "warning",
+      message: `result.searchIndexExists checks ${target} but no cleanup action drops it, so the index outlives the case`,
+      at: [...at, "result", "searchIndexExists"],
+    }];
+  }
+
+  return [{
+    rule: "search-index-cleanup",
+    severity: "warning",
+    message: `cleanup.dropSearchIndex drops ${dropped.database}.${dropped.collection} index "${dropped.indexName}" but result.searchIndexExists checks ${target}`,
+    at: ["cleanup", "dropSearchIndex"],
+  }];
+}
+
+/** Whether a cleanup action removes a search index, directly or with its collection or database */
+function dropsSearchIndex(
+  action: CleanupAction,
+  index: { database: string; collection: string; indexName: string }
+): boolean {
+  if (action.database !== index.database) return false;
+  switch (action.action) {
+    case "dropDatabase":
+      return true;
+    case "dropCollection":
+    case "dropAllSearchIndexes":
+      return action.collection === index.collection;
+    case "dropSearchIndex":
+      return action.collection === index.collection && action.indexName === index.indexName;
+    default:
+      return false;
+  }
+}
+
+/** A pattern that must both appear and not appear can never pass */
+function contradictoryPatterns(evalCase: EvalCase): CaseFinding[] {
+  return assertionSets(evalCase).flatMap(({ expected, at }) => contradictionFindings(expected, at));
+}
+
+function contradictionFindings(expected: EvalCaseExpected, at: PathSegment[]): CaseFinding[] {
+  const required = expected.semantic?.mustContain ?? [];
+
+  return (expected.semantic?.mustNotContain ?? []).flatMap((pattern, index) => {
+    const requiredBy = required.find((candidate) => alwaysMatchesToo(candidate, pattern));
+    return requiredBy === undefined
+      ? []
+      : [{
+          rule: "contradictory-pattern",
+          severity: "error" as const,
+          message: `Pattern "${pattern.pattern}" (${pattern.name}) is also required by mustContain (${requiredBy.name})`,
+          at: [...at, "semantic", "mustNotContain", index],
+        }];
+  });
+}
+
+/** Whether code matching the required pattern always matches the forbidden one too */
+function alwaysMatchesToo(required: Pattern, forbidden: Pattern): boolean {
+  if (required.pattern !== forbidden.pattern) return false;
+  const requiredMode = required.match ?? "literal";
+  const forbiddenMode = forbidden.match ?? "literal";
+  if (requiredMode === "regex" || forbiddenMode === "regex") {
+    return requiredMode === forbiddenMode && (required.flags ?? "") === (forbidden.flags ?? "");
+  }
+  // Text outside comments is in the code, but text in the code may be in a comment
+  return forbiddenMode === "literal" || requiredMode === "ignoreComments";
+}
+
+const CASE_RULES: Array<(evalCase: EvalCase, options: LintOptions) => CaseFinding[]> = [
+  missingSkillFiles,
+  missingSetupFiles,
+  searchIndexWithoutCleanup,
+  contradictoryPatterns,
+];
+
+// =============================================================================
+// DOC LINKS
+// =============================================================================
+
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * Check whether a docLink can be fetched.
+ *
+ * @returns Why the link is unreachable, or undefined if it is fine
+ */
+async function docLinkProblem(url: string, options: LintOptions): Promise<string | undefined> {
+  if (options.offline && !LOCAL_HOSTS.has(new URL(url).hostname)) {
+    return "docLink can't be fetched offline, so with-docs would get placeholder documentation";
+  }
+
+  const timeoutMs = options.timeoutMs ?? 10000;
+  try {
+    let response = await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(timeoutMs) });
+    // Some servers don't answer HEAD requests
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    }
+    return response.ok ? undefined : `docLink returned ${response.status} ${response.statusText}`.trim();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return `docLink could not be fetched: ${message}`;
+  }
+}
+
+// =============================================================================
+// LINTING
+// =============================================================================
+
+/**
+ * Lint eval case files. Duplicate names are detected across all files.
+ *
+ * @returns Issues ordered by file, line and column
+ */
+export async function lintEvalCaseFiles(filePaths: string[], options: LintOptions = {}): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+  const firstNames = new Map<string, string>();
+  const docLinks = new Map<string, LintIssue[]>();
+
+  for (const filePath of filePaths) {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(readFileSync(filePath, "utf-8"), { lineCounter, prettyErrors: false });
+    const source: SourceFile = { path: filePath, doc, lineCounter };
+    const issueAt = (location: SourceLocation, rule: string, severity: LintSeverity, message: string, caseName?: string) =>
+      issues.push({ rule, severity, message, file: filePath, ...location, caseName });
+
+    if (doc.errors.length > 0) {
+      for (const error of doc.errors) {
+        const { line, col } = lineCounter.linePos(error.pos[0]);
+        issueAt({ line, column: col }, "yaml", "error", error.message.split("\n")[0] ?? error.message);
+      }
+      continue;
+    }
+
+    const file = EvalCaseFileSchema.safeParse(doc.toJS());
+    if (!file.success) {
+      for (const issue of file.error.issues) {
+        issueAt(locate(source, issue.path.map(toSegment)), "schema", "error", issue.message);
+      }
+      continue;
+    }
+
+    let expanded;
+    try {
+      expanded = expandEvalCaseFile(file.data);
+    } catch (error) {
+      // Expansion errors read "path: message", one per line
+      const message = error instanceof Error ? error.message : String(error);
+      for (const line of message.split("\n  - ")) {
+        const match = /^((?:[^:\s[]|\[[^\]]*\])+): ([\s\S]*)$/.exec(line);
+        issueAt(locate(source, match ? parsePath(match[1]!) : []), "schema", "error", match?.[2] ?? line);
+      }
+      continue;
+    }
+
+    for (const { path, evalCase: rawCase } of expanded) {
+      const casePath = parsePath(path);
+      const result = EvalCaseSchema.safeParse(rawCase);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          const name = (rawCase as { name?: unknown } | null)?.name;
+          issueAt(
+            locateInCase(source, casePath, issue.path.map(toSegment)),
+            "schema",
+            "error",
+            issue.message,
+            typeof name === "string" ? name : undefined
+          );
+        }
+        continue;
+      }
+
+      const evalCase = { ...result.data, sourceFile: filePath };
+      const at = (keyPath: PathSegment[]) => locateInCase(source, casePath, keyPath);
+
+      const nameLocation = at(["name"]);
+      const first = firstNames.get(evalCase.name);
+      if (first) {
+        issueAt(nameLocation, "duplicate-name", "error", `Case name "${evalCase.name}" is already used at ${first}`, evalCase.name);
+      } else {
+        firstNames.set(evalCase.name, `${filePath}:${nameLocation.line}:${nameLocation.column}`);
+      }
+
+      for (const rule of CASE_RULES) {
+        for (const finding of rule(evalCase, options)) {
+          issueAt(at(finding.at), finding.rule, finding.severity, finding.message, evalCase.name);
+        }
+      }
+
+      // Doc links are checked once each, after all files are read
+      const docLink = evalCase.input.docLink;
+      if (docLink && (options.checkDocLinks || options.offline)) {
+        const location = at(["input", "docLink"]);
+        const occurrences = docLinks.get(docLink) ?? [];
+        occurrences.push({
+          rule: "unreachable-doc-link",
+          severity: "warning",
+          message: "",
+          file: filePath,
+          ...location,
+          caseName: evalCase.name,
+        });
+        docLinks.set(docLink, occurrences);
+      }
+    }
+  }
+
+  for (const [url, occurrences] of docLinks) {
+    const problem = await docLinkProblem(url, options);
+    if (problem) {
+      issues.push(...occurrences.map((occurrence) => ({ ...occurrence, message: `${problem} (${url})` })));
+    }
+  }
+
+  const fileOrder = new Map(filePaths.map((filePath, index) => [filePath, index]));
+  return issues.sort((a, b) =>
+    (fileOrder.get(a.file) ?? 0) - (fileOrder.get(b.file) ?? 0) || a.line - b.line || a.column - b.column
+  );
+}
+
+function toSegment(key: PropertyKey): PathSegment {
+  return typeof key === "number" ? key : String(key);
+}
+
+/**
+ * Format an issue as "file:line:column  severity  message  [rule]".
+ */
+export function formatLintIssue(issue: LintIssue): string {
+  const caseName = issue.caseName ? ` (case "${issue.caseName}")` : "";
+  return `${issue.file}:${issue.line}:${issue.column}  ${issue.severity.padEnd(7)}  ${issue.message}${caseName}  [${issue.rule}]`;
+}
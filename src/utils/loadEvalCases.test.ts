@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EvalCase } from "../schemas/evalCase.js";
+import {
+  expandEvalCaseFile,
+  mergeDefaults,
+  parseTagExpression,
+  patternToRegExp,
+  selectEvalCases,
+  substituteVariables,
+} from "./loadEvalCases.js";
+
+describe("substituteVariables", () => {
+  const env = { SKILLS_DIR: "/env/skills" };
+
+  it("uses file variables before the environment", () => {
+    assert.equal(substituteVariables("${SKILLS_DIR}/a", { SKILLS_DIR: "/file" }, env), "/file/a");
+    assert.equal(substituteVariables("${SKILLS_DIR}/a", {}, env), "/env/skills/a");
+  });
+
+  it("falls back to the default", () => {
+    assert.equal(substituteVariables("${MISSING:-skills}/a", {}, env), "skills/a");
+    assert.equal(substituteVariables("${SKILLS_DIR:-skills}", {}, env), "/env/skills");
+  });
+
+  it("keeps escaped placeholders literal", () => {
+    assert.equal(substituteVariables("$${name}", { name: "x" }, env), "${name}");
+  });
+
+  it("substitutes inside arrays and objects only in strings", () => {
+    assert.deepEqual(
+      substituteVariables({ files: ["${dir}/SKILL.md"], samples: 2 }, { dir: "/d" }, env),
+      { files: ["/d/SKILL.md"], samples: 2 }
+    );
+  });
+
+  it("reports where an undefined variable is used", () => {
+    assert.throws(() => substituteVariables({ input: { prompt: "${nope}" } }, {}, {}), /input\.prompt: variable "\$\{nope\}"/);
+  });
+});
+
+describe("mergeDefaults", () => {
+  it("merges objects key by key, with the case's values winning", () => {
+    assert.deepEqual(
+      mergeDefaults({ input: { docLink: "d", prompt: "p" }, samples: 1 }, { input: { prompt: "own" } }),
+      { input: { docLink: "d", prompt: "own" }, samples: 1 }
+    );
+  });
+
+  it("replaces arrays instead of concatenating them", () => {
+    assert.deepEqual(mergeDefaults({ tags: ["a", "b"] }, { tags: ["c"] }), { tags: ["c"] });
+  });
+});
+
+describe("expandEvalCaseFile", () => {
+  it("applies variables to defaults and cases", () => {
+    const [expanded] = expandEvalCaseFile({
+      variables: { skills: "/skills" },
+      defaults: { input: { skillFiles: ["${skills}/SKILL.md"] } },
+      cases: [{ name: "Case", input: { prompt: "Use ${skills}" } }],
+    });
+    assert.deepEqual(expanded, {
+      path: "cases.0",
+      evalCase: { name: "Case", input: { prompt: "Use /skills", skillFiles: ["/skills/SKILL.md"] } },
+    });
+  });
+
+  it("accepts a plain list of cases", () => {
+    assert.deepEqual(expandEvalCaseFile([{ name: "Case" }]), [{ path: "0", evalCase: { name: "Case" } }]);
+  });
+});
+
+describe("matrix expansion", () => {
+  it("expands every combination, varying the last parameter fastest", () => {
+    const expanded = expandEvalCaseFile([
+      { name: "Index", tags: ["index"], matrix: { mapping: ["dynamic", "static"], samples: [1, 2] } },
+    ]);
+    assert.deepEqual(
+      expanded.map(({ path }) => path),
+      [
+        "0[mapping=dynamic, samples=1]",
+        "0[mapping=dynamic, samples=2]",
+        "0[mapping=static, samples=1]",
+        "0[mapping=static, samples=2]",
+      ]
+    );
+    assert.deepEqual(expanded[1]?.evalCase, {
+      name: "Index [mapping=dynamic, samples=2]",
+      tags: ["index", "mapping:dynamic", "samples:2"],
+      parameters: { mapping: "dynamic", samples: "2" },
+    });
+  });
+
+  it("substitutes parameters into the case and defaults, before file variables", () => {
+    const [expanded] = expandEvalCaseFile({
+      variables: { mapping: "from-variables" },
+      defaults: { input: { docLink: "https://docs/${mapping}" } },
+      cases: [{ name: "Index with ${mapping} mapping", matrix: { mapping: ["static"] } }],
+    });
+    assert.deepEqual(expanded?.evalCase, {
+      input: { docLink: "https://docs/static" },
+      name: "Index with static mapping",
+      tags: ["mapping:static"],
+      parameters: { mapping: "static" },
+    });
+  });
+
+  it("rejects an invalid matrix", () => {
+    assert.throws(() => expandEvalCaseFile([{ name: "Index", matrix: { mapping: [] } }]), /0\.matrix\.mapping/);
+    assert.throws(() => expandEvalCaseFile([{ name: "Index", matrix: { "bad-name": ["a"] } }]), /0\.matrix\.bad-name/);
+  });
+});
+
+describe("parseTagExpression", () => {
+  const matches = (expression: string, tags: string[]) => parseTagExpression(expression)(tags);
+
+  it("gives and precedence over or", () => {
+    assert.equal(matches("a or b and c", ["a"]), true);
+    assert.equal(matches("a or b and c", ["b"]), false);
+    assert.equal(matches("(a or b) and c", ["a"]), false);
+  });
+
+  it("supports not, commas and case-insensitive keywords", () => {
+    assert.equal(matches("index AND NOT slow", ["index"]), true);
+    assert.equal(matches("index and not slow", ["index", "slow"]), false);
+    assert.equal(matches("a, b", ["b"]), true);
+    assert.equal(matches("not not a", ["a"]), true);
+  });
+
+  it("matches tag globs", () => {
+    assert.equal(matches("mapping:*", ["mapping:static"]), true);
+    assert.equal(matches("mapping:?", ["mapping:static"]), false);
+  });
+
+  it("rejects invalid expressions", () => {
+    assert.throws(() => parseTagExpression(""), /empty expression/);
+    assert.throws(() => parseTagExpression("a and"), /expected a tag at the end/);
+    assert.throws(() => parseTagExpression("(a or b"), /expected "\)"/);
+    assert.throws(() => parseTagExpression("a b"), /unexpected "b"/);
+    assert.throws(() => parseTagExpression("and a"), /expected a tag, got "and"/);
+  });
+});
+
+describe("selectEvalCases", () => {
+  const evalCase = (name: string, tags: string[], sourceFile: string) =>
+    ({ name, tags, sourceFile }) as unknown as EvalCase;
+  const cases = [
+    evalCase("Create index", ["index"], "evalCases/search/index.yml"),
+    evalCase("Create slow index", ["index", "slow"], "evalCases/search/index.yml"),
+    evalCase("Query movies", ["query"], "evalCases\\query\\movies.yml"),
+  ];
+  const names = (selection: Parameters<typeof selectEvalCases>[1]) =>
+    selectEvalCases(cases, selection).map(({ name }) => name);
+
+  it("combines tags, names, exclusions and files", () => {
+    assert.deepEqual(names({ tags: "index and not slow" }), ["Create index"]);
+    assert.deepEqual(names({ names: ["create*"], excludeNames: ["/slow/"] }), ["Create index"]);
+    assert.deepEqual(names({ files: ["evalCases/query/*"] }), ["Query movies"]);
+    assert.deepEqual(names({ tags: "index", files: ["*/search/*"], excludeNames: ["Create index"] }), ["Create slow index"]);
+  });
+});
+
+describe("patternToRegExp", () => {
+  it("treats /source/flags as a regex and anything else as a whole-name glob", () => {
+    assert.equal(patternToRegExp("/index/").test("Create index"), true);
+    assert.equal(patternToRegExp("index").test("Create index"), false);
+    assert.equal(patternToRegExp("CREATE *").test("Create index"), true);
+  });
+
+  it("drops stateful flags and rejects invalid regexes", () => {
+    const regex = patternToRegExp("/a/g");
+    assert.equal(regex.test("a"), true);
+    assert.equal(regex.test("a"), true);
+    assert.throws(() => patternToRegExp("/(/"), /Invalid pattern/);
+  });
+});
@@ -1,46 +1,254 @@
 /**
  * YAML eval case loader.
  *
- * Loads and validates eval cases from YAML files.
+ * Loads and validates eval cases from YAML files. A file can set
+ * file-level variables and defaults:
+ *
+ * ```yaml
+ * variables:
+ *   skills: ${SKILLS_DIR:-/opt/skills}/ai-search
+ * defaults:
+ *   input:
+ *     skillFiles: [${skills}/SKILL.md]
+ * cases:
+ *   - name: ...
+ * ```
  */
 
 import { readFileSync, readdirSync, statSync } from "fs";
 import { join, extname } from "path";
 import { parse as parseYaml } from "yaml";
-import { EvalCasesSchema, type EvalCase } from "../schemas/evalCase.js";
+import type { z } from "zod";
+import { EvalCaseFileSchema, EvalCaseSchema, MatrixSchema, type EvalCase } from "../schemas/evalCase.js";
+
+/**
+ * Format Zod issues as an indented list of "path: message" lines.
+ */
+function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues.map((e) => `  - ${String(e.path.join("."))}: ${e.message}`).join("\n");
+}
 
 /**
  * Load eval cases from a single YAML file.
  *
+ * Matrix cases are expanded, variables substituted and defaults merged
+ * before each case is validated.
+ *
  * @param filePath - Path to the YAML file
  * @returns Array of validated eval cases
- * @throws Error if file cannot be read or validation fails
+ * @throws Error if file cannot be read, a variable is undefined or validation fails
  */
 export function loadEvalCasesFromFile(filePath: string): EvalCase[] {
   const content = readFileSync(filePath, "utf-8");
   const parsed = parseYaml(content);
 
-  // Validate with Zod schema
-  const result = EvalCasesSchema.safeParse(parsed);
+  // Validate the file layout, then expand it into plain cases
+  const file = EvalCaseFileSchema.safeParse(parsed);
+  if (!file.success) {
+    throw new Error(`Invalid eval case file ${filePath}:\n${formatIssues(file.error.issues)}`);
+  }
+
+  let cases: ExpandedEvalCase[];
+  try {
+    cases = expandEvalCaseFile(file.data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid eval case file ${filePath}:\n  - ${message}`);
+  }
+
+  // Validate each case with Zod schema, reporting issues at the source case
+  const evalCases: EvalCase[] = [];
+  const issues: z.core.$ZodIssue[] = [];
+  for (const { path, evalCase } of cases) {
+    const result = EvalCaseSchema.safeParse(evalCase);
+    if (result.success) {
+      evalCases.push({ ...result.data, sourceFile: filePath });
+    } else {
+      issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [path, ...issue.path] })));
+    }
+  }
 
-  if (!result.success) {
-    const errors = result.error.issues
-      .map((e) => `  - ${String(e.path.join("."))}: ${e.message}`)
-      .join("\n");
-    throw new Error(`Invalid eval case file ${filePath}:\n${errors}`);
+  if (issues.length > 0) {
+    throw new Error(`Invalid eval case file ${filePath}:\n${formatIssues(issues)}`);
   }
 
-  return result.data;
+  return evalCases;
 }
 
+// =============================================================================
+// VARIABLES AND DEFAULTS
+// =============================================================================
+
+/** ${name} or ${name:-default}; $${ is an escaped, literal ${ */
+const VARIABLE_PATTERN = /\$(\$)?\{(\w+)(?::-([^}]*))?\}/g;
+
 /**
- * Load all eval cases from a directory (recursively).
+ * Replace ${name} placeholders in every string of a parsed YAML value.
+ * Names are looked up in variables first, then in the environment;
+ * ${name:-default} falls back to the default. Use $${ for a literal ${.
+ *
+ * @param path - Location of the value, for error messages
+ * @throws Error if a placeholder has no value and no default
+ */
+export function substituteVariables(
+  value: unknown,
+  variables: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env,
+  path: string = ""
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(VARIABLE_PATTERN, (match, escaped: string | undefined, name: string, fallback: string | undefined) => {
+      if (escaped) return match.slice(1);
+
+      const resolved = variables[name] ?? env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`${path || "(root)"}: variable "\${${name}}" is not defined in the file's variables or the environment`);
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => substituteVariables(item, variables, env, path ? `${path}.${index}` : String(index)));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteVariables(item, variables, env, path ? `${path}.${key}` : key)])
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge defaults under a value. Objects are merged key by key;
+ * arrays and scalars from the value replace the defaults.
+ */
+export function mergeDefaults(defaults: unknown, value: unknown): unknown {
+  if (!isPlainObject(defaults) || !isPlainObject(value)) {
+    return value === undefined ? defaults : value;
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, item] of Object.entries(value)) {
+    merged[key] = mergeDefaults(defaults[key], item);
+  }
+  return merged;
+}
+
+/** An eval case expanded from a file, before validation */
+export interface ExpandedEvalCase {
+  /**
+   * Location of the source case, for error messages (e.g., "cases.2", or
+   * "cases.2[mapping=static]" for a matrix expansion)
+   */
+  path: string;
+  evalCase: unknown;
+}
+
+/**
+ * Turn a parsed eval case file into plain (unvalidated) cases: matrix
+ * cases are expanded, variables substituted and defaults merged in.
+ *
+ * Matrix parameters take precedence over file variables, and apply to the
+ * defaults too. Variable values may refer to the environment but not to
+ * other variables.
+ */
+export function expandEvalCaseFile(file: z.infer<typeof EvalCaseFileSchema>): ExpandedEvalCase[] {
+  const { variables: rawVariables = {}, defaults: rawDefaults = {}, cases } = Array.isArray(file)
+    ? { cases: file }
+    : file;
+  const variables = substituteVariables(rawVariables, {}, process.env, "variables") as Record<string, string>;
+
+  return cases.flatMap((rawCase, index) => {
+    const casePath = Array.isArray(file) ? String(index) : `cases.${index}`;
+
+    return expandMatrix(rawCase, casePath).map(({ evalCase, parameters }) => {
+      const path = parameters ? `${casePath}[${formatParameters(parameters)}]` : casePath;
+      const scope = { ...variables, ...parameters };
+      const defaults = substituteVariables(rawDefaults, scope, process.env, "defaults");
+      const merged = mergeDefaults(defaults, substituteVariables(evalCase, scope, process.env, path));
+      return { path, evalCase: parameters ? labelExpansion(evalCase, merged, parameters) : merged };
+    });
+  });
+}
+
+// =============================================================================
+// MATRIX EXPANSION
+// =============================================================================
+
+/**
+ * Expand a case's matrix into one case (without the matrix) per
+ * combination of parameter values. Cases without a matrix are returned as is.
+ *
+ * @throws Error if the matrix is invalid
+ */
+function expandMatrix(
+  rawCase: unknown,
+  path: string
+): Array<{ evalCase: unknown; parameters?: Record<string, string> }> {
+  if (!isPlainObject(rawCase) || rawCase.matrix === undefined) {
+    return [{ evalCase: rawCase }];
+  }
+
+  const { matrix: rawMatrix, ...evalCase } = rawCase;
+  const matrix = MatrixSchema.safeParse(rawMatrix);
+  if (!matrix.success) {
+    throw new Error(
+      matrix.error.issues.map((e) => `${[path, "matrix", ...e.path].join(".")}: ${e.message}`).join("\n  - ")
+    );
+  }
+
+  // Cartesian product, varying the last parameter fastest
+  let combinations: Array<Record<string, string>> = [{}];
+  for (const [name, values] of Object.entries(matrix.data)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: String(value) }))
+    );
+  }
+
+  return combinations.map((parameters) => ({ evalCase, parameters }));
+}
+
+function formatParameters(parameters: Record<string, string>): string {
+  return Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(", ");
+}
+
+/**
+ * Name and tag a matrix expansion with its parameter values.
+ *
+ * The name gets a "[name=value, ...]" suffix unless the case's name
+ * already uses a parameter, and each parameter adds a "name:value" tag.
+ */
+function labelExpansion(rawCase: unknown, merged: unknown, parameters: Record<string, string>): unknown {
+  if (!isPlainObject(rawCase) || !isPlainObject(merged)) return merged;
+
+  const rawName = typeof rawCase.name === "string" ? rawCase.name : "";
+  const namesParameter = Object.keys(parameters).some((name) =>
+    new RegExp(`(^|[^$])\\$\\{${name}(:-[^}]*)?\\}`).test(rawName)
+  );
+  const tags = Array.isArray(merged.tags) ? merged.tags : [];
+
+  return {
+    ...merged,
+    name: typeof merged.name === "string" && !namesParameter
+      ? `${merged.name} [${formatParameters(parameters)}]`
+      : merged.name,
+    tags: [...tags, ...Object.entries(parameters).map(([name, value]) => `${name}:${value}`)],
+    parameters,
+  };
+}
+
+/**
+ * Find all YAML eval case files in a directory (recursively).
  *
  * @param dirPath - Path to the directory containing YAML files
- * @returns Array of all validated eval cases
+ * @returns Sorted array of YAML file paths
  */
-export function loadEvalCasesFromDirectory(dirPath: string): EvalCase[] {
-  const evalCases: EvalCase[] = [];
+export function findEvalCaseFiles(dirPath: string): string[] {
+  const files: string[] = [];
 
   function walkDir(dir: string): void {
     const entries = readdirSync(dir);
@@ -52,14 +260,58 @@ export function loadEvalCasesFromDirectory(dirPath: string): EvalCase[] {
       if (stat.isDirectory()) {
         walkDir(fullPath);
       } else if (stat.isFile() && [".yml", ".yaml"].includes(extname(entry))) {
-        const cases = loadEvalCasesFromFile(fullPath);
-        evalCases.push(...cases);
+        files.push(fullPath);
       }
     }
   }
 
   walkDir(dirPath);
-  return evalCases;
+  return files.sort();
+}
+
+/**
+ * Load all eval cases from a directory (recursively).
+ *
+ * @param dirPath - Path to the directory containing YAML files
+ * @returns Array of all validated eval cases
+ */
+export function loadEvalCasesFromDirectory(dirPath: string): EvalCase[] {
+  return findEvalCaseFiles(dirPath).flatMap((filePath) => loadEvalCasesFromFile(filePath));
+}
+
+// =============================================================================
+// CASE SELECTION
+// =============================================================================
+
+/**
+ * Criteria for selecting a subset of eval cases. A case must satisfy every
+ * criterion that is set.
+ */
+export interface CaseSelection {
+  /** Tag expression, e.g. "index and not slow" (see parseTagExpression) */
+  tags?: string;
+  /** Name globs or /regexes/ (case matches if its name matches ANY) */
+  names?: string[];
+  /** Name globs or /regexes/ of cases to leave out */
+  excludeNames?: string[];
+  /** Globs for the YAML file a case was loaded from (case matches if ANY matches) */
+  files?: string[];
+}
+
+/**
+ * Select eval cases by tag expression, name and source file.
+ *
+ * @throws Error if the tag expression or a name regex is invalid
+ */
+export function selectEvalCases(evalCases: EvalCase[], selection: CaseSelection): EvalCase[] {
+  let selected = evalCases;
+  if (selection.tags) selected = filterByTagExpression(selected, selection.tags);
+  selected = filterByName(selected, selection.names ?? []);
+  if (selection.excludeNames?.length) {
+    const excluded = new Set(filterByName(selected, selection.excludeNames));
+    selected = selected.filter((evalCase) => !excluded.has(evalCase));
+  }
+  return filterByFile(selected, selection.files ?? []);
 }
 
 /**
@@ -78,3 +330,177 @@ export function filterByTags(evalCases: EvalCase[], tags: string[]): EvalCase[]
   });
 }
 
+/**
+ * Filter eval cases by a tag expression.
+ *
+ * @param evalCases - Array of eval cases
+ * @param expression - Tag expression (see parseTagExpression)
+ * @returns Cases whose tags satisfy the expression
+ * @throws Error if the expression is invalid
+ */
+export function filterByTagExpression(evalCases: EvalCase[], expression: string): EvalCase[] {
+  const matches = parseTagExpression(expression);
+  return evalCases.filter((evalCase) => matches(evalCase.tags ?? []));
+}
+
+/**
+ * Filter eval cases by name glob patterns or regular expressions.
+ *
+ * Globs support `*` (any characters) and `?` (single character); matching
+ * is case-insensitive and must cover the whole name. A pattern written as
+ * /source/flags is a regular expression and may match part of the name.
+ *
+ * @param evalCases - Array of eval cases
+ * @param patterns - Globs or regexes (case matches if its name matches ANY pattern)
+ * @returns Filtered array of eval cases
+ */
+export function filterByName(evalCases: EvalCase[], patterns: string[]): EvalCase[] {
+  if (patterns.length === 0) return evalCases;
+
+  const regexes = patterns.map(patternToRegExp);
+  return evalCases.filter((evalCase) => regexes.some((regex) => regex.test(evalCase.name)));
+}
+
+/**
+ * Filter eval cases by the path of the YAML file they were loaded from.
+ *
+ * Paths are compared with forward slashes, as given to the loader (e.g.,
+ * "evalCases/search/index-creation.yml"). Cases without a source file
+ * never match.
+ *
+ * @param evalCases - Array of eval cases
+ * @param patterns - Path globs or /regexes/ (case matches if its file matches ANY pattern)
+ * @returns Filtered array of eval cases
+ */
+export function filterByFile(evalCases: EvalCase[], patterns: string[]): EvalCase[] {
+  if (patterns.length === 0) return evalCases;
+
+  const regexes = patterns.map(patternToRegExp);
+  return evalCases.filter((evalCase) => {
+    const file = evalCase.sourceFile?.replace(/\\/g, "/");
+    return file !== undefined && regexes.some((regex) => regex.test(file));
+  });
+}
+
+/**
+ * Convert a name or path pattern to a regular expression: /source/flags
+ * is used as a regex, anything else as a glob.
+ *
+ * @throws Error if a regex pattern is invalid
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([dgimsuvy]*)$/.exec(pattern);
+  if (!regex) return globToRegExp(pattern);
+
+  try {
+    // Stateful flags would make repeated test() calls skip matches
+    return new RegExp(regex[1]!, regex[2]!.replace(/[gy]/g, ""));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid pattern ${pattern}: ${message}`);
+  }
+}
+
+/**
+ * Convert a glob pattern to an anchored, case-insensitive regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+// =============================================================================
+// TAG EXPRESSIONS
+// =============================================================================
+
+/** Tests a case's tags */
+export type TagMatcher = (tags: string[]) => boolean;
+
+/** Splits an expression into parentheses, commas and words */
+const TAG_TOKEN_PATTERN = /\s*([(),]|[^\s(),]+)/y;
+
+/**
+ * Parse a tag expression into a matcher.
+ *
+ * Grammar (keywords are case-insensitive, `,` is the same as `or`):
+ *
+ *   expression := term (("or" | ",") term)*
+ *   term       := factor ("and" factor)*
+ *   factor     := "not" factor | "(" expression ")" | tag
+ *
+ * A tag may use `*` and `?` globs (e.g., `mapping:*`). Examples:
+ * `search and not vector`, `index and not (slow or flaky)`, `a, b`.
+ *
+ * @throws Error if the expression is invalid
+ */
+export function parseTagExpression(expression: string): TagMatcher {
+  const tokens: string[] = [];
+  TAG_TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_TOKEN_PATTERN.exec(expression)) !== null) {
+    tokens.push(match[1]!);
+  }
+
+  let position = 0;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid tag expression "${expression}": ${message}`);
+  };
+  const peek = () => tokens[position]?.toLowerCase();
+
+  function parseExpression(): TagMatcher {
+    const terms = [parseTerm()];
+    while (peek() === "or" || peek() === ",") {
+      position++;
+      terms.push(parseTerm());
+    }
+    return terms.length === 1 ? terms[0]! : (tags) => terms.some((term) => term(tags));
+  }
+
+  function parseTerm(): TagMatcher {
+    const factors = [parseFactor()];
+    while (peek() === "and") {
+      position++;
+      factors.push(parseFactor());
+    }
+    return factors.length === 1 ? factors[0]! : (tags) => factors.every((factor) => factor(tags));
+  }
+
+  function parseFactor(): TagMatcher {
+    const token = tokens[position++];
+    if (token === undefined) return fail("expected a tag at the end");
+
+    const keyword = token.toLowerCase();
+    if (keyword === "not") {
+      const factor = parseFactor();
+      return (tags) => !factor(tags);
+    }
+    if (token === "(") {
+      const inner = parseExpression();
+      if (tokens[position++] !== ")") fail(`expected ")"`);
+      return inner;
+    }
+    if (token === ")" || token === "," || keyword === "and" || keyword === "or") {
+      return fail(`expected a tag, got "${token}"`);
+    }
+
+    if (/[*?]/.test(token)) {
+      const regex = globToRegExp(token);
+      return (tags) => tags.some((tag) => regex.test(tag));
+    }
+    return (tags) => tags.includes(token);
+  }
+
+  if (tokens.length === 0) fail("empty expression");
+  const matcher = parseExpression();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}" (combine tags with and, or, not)`);
+  }
+  return matcher;
+}
@@ -0,0 +1,159 @@
+/**
+ * Utility for executing generated Python (PyMongo) code.
+ *
+ * Code runs in a python3 subprocess with MONGODB_URI injected into its
+ * environment. Unlike the Node.js executor there is no sandbox: the
+ * subprocess has the same access as the user running the harness.
+ */
+
+import { spawn } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ExecutionOptions, ExecutionResult } from "./code-executor.js";
+import type { DatabaseRedirects } from "./db-isolation.js";
+
+/** Python interpreter used for syntax checks and execution */
+export const PYTHON_EXECUTABLE = process.env.PYTHON_EXECUTABLE || "python3";
+
+/** Output of a finished Python process */
+export interface PythonProcessResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+/**
+ * Run the Python interpreter and collect its output.
+ *
+ * @param args - Interpreter arguments (e.g., a script path)
+ * @param options.input - Text written to stdin
+ * @param options.env - Extra environment variables
+ * @param options.timeout - Kill the process after this many milliseconds
+ */
+export function runPython(
+  args: string[],
+  options: { input?: string; env?: Record<string, string>; timeout?: number } = {}
+): Promise<PythonProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(PYTHON_EXECUTABLE, args, {
+      env: { ...process.env, ...options.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill("SIGKILL");
+        }, options.timeout)
+      : undefined;
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${PYTHON_EXECUTABLE}: ${error.message}`));
+    });
+    child.on("close", (exitCode) => {
+      clearTimeout(timer);
+      resolve({ exitCode, stdout, stderr, timedOut });
+    });
+
+    child.stdin.end(options.input ?? "");
+  });
+}
+
+/**
+ * Python prelude that redirects PyMongo database names to isolated copies.
+ * Patching Database covers client["db"], client.db and get_database().
+ */
+function buildRedirectPrelude(redirects: DatabaseRedirects): string {
+  return `import json as _harness_json
+import pymongo.database as _harness_database
+
+_HARNESS_REDIRECTS = _harness_json.loads(${JSON.stringify(JSON.stringify(redirects))})
+_harness_database_init = _harness_database.Database.__init__
+
+def _harness_redirected_init(self, client, name, *args, **kwargs):
+    _harness_database_init(self, client, _HARNESS_REDIRECTS.get(name, name), *args, **kwargs)
+
+_harness_database.Database.__init__ = _harness_redirected_init
+del _harness_json
+
+`;
+}
+
+/**
+ * Execute generated Python code in a subprocess.
+ *
+ * The code succeeds if the process exits with status 0. stdout is returned
+ * as the output; on failure the error is the end of stderr (usually the
+ * traceback).
+ *
+ * @param code - The generated Python code to execute
+ * @param connectionString - MongoDB connection string (optional, uses env var if not provided)
+ * @param timeout - Execution timeout in milliseconds (default: 30000)
+ * @param options - Database redirects and environment variables (allowedModules
+ *   does not apply: the subprocess can import any installed package)
+ * @returns ExecutionResult with success status and output or error
+ */
+export async function executePythonCode(
+  code: string,
+  connectionString?: string,
+  timeout: number = 30000,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const { databaseRedirects, env } = options;
+  const startTime = Date.now();
+  const uri = connectionString || process.env.MONGODB_URI;
+
+  if (!uri) {
+    return {
+      success: false,
+      error: "MongoDB connection string not provided. Set MONGODB_URI environment variable.",
+    };
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "codegen-eval-"));
+  const scriptPath = join(dir, "generated_code.py");
+
+  try {
+    const prelude = databaseRedirects && Object.keys(databaseRedirects).length > 0
+      ? buildRedirectPrelude(databaseRedirects)
+      : "";
+    await writeFile(scriptPath, prelude + code, "utf-8");
+
+    const result = await runPython([scriptPath], { env: { ...env, MONGODB_URI: uri }, timeout });
+    const executionTime = Date.now() - startTime;
+
+    if (result.stdout.trim()) {
+      console.log("[Generated Code]", result.stdout.trim());
+    }
+
+    if (result.timedOut) {
+      return { success: false, error: `Execution timed out after ${timeout}ms`, executionTime };
+    }
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.stderr.trim().slice(-2000) || `Process exited with code ${result.exitCode}`,
+        executionTime,
+      };
+    }
+
+    return { success: true, output: result.stdout, executionTime };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || String(error),
+      executionTime: Date.now() - startTime,
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
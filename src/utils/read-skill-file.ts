@@ -1,33 +1,100 @@
 /**
  * Utility for reading skill content from local files
+ *
+ * Relative skill paths in eval cases are resolved against the configured
+ * skills root, or else the directory of the YAML file the case came from.
  */
 
+import { createHash } from "crypto";
 import { readFile } from "fs/promises";
-import { resolve } from "path";
+import { dirname, resolve } from "path";
 
 export interface ReadSkillFileOptions {
   /** Base directory for resolving relative paths (default: process.cwd()) */
   baseDir?: string;
   /** Whether to log progress to console (default: true) */
   verbose?: boolean;
+  /** Throw a SkillFileError instead of returning placeholder content when a file can't be read (default: false) */
+  strict?: boolean;
+}
+
+/** Where eval case skill files are read from */
+export interface SkillFileOptions {
+  /** Directory relative skill paths are resolved against (default: the eval case's YAML file directory) */
+  root?: string;
+  /** Fail the row as an infrastructure error when a skill file can't be read (default: false) */
+  strict?: boolean;
 }
 
 /**
- * Read skill content from a local file
+ * A skill file that couldn't be read in strict mode.
+ */
+export class SkillFileError extends Error {
+  /** Resolved path of the file */
+  readonly path: string;
+
+  constructor(message: string, path: string, cause: unknown) {
+    super(message, { cause });
+    this.name = "SkillFileError";
+    this.path = path;
+  }
+}
+
+/**
+ * Result from reading a skill file, including where it was read from.
+ */
+export interface SkillFileResult {
+  /** The skill content (a placeholder if the file couldn't be read) */
+  content: string;
+  /** The path as given */
+  path: string;
+  /** The absolute path the file was read from */
+  resolvedPath: string;
+  /** SHA-256 of the file content (null if the file couldn't be read) */
+  sha256: string | null;
+}
+
+/**
+ * Result from reading several skill files.
+ */
+export interface SkillFilesResult {
+  /** Concatenated content (separated by double newlines) */
+  content: string;
+  /** SHA-256 of the concatenated content */
+  sha256: string;
+  files: SkillFileResult[];
+}
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Directory relative skill paths of an eval case resolve against: the
+ * skills root if one is configured, else the directory of the case's YAML
+ * file, else the working directory.
+ */
+export function resolveSkillBaseDir(sourceFile?: string, root?: string): string {
+  if (root) return resolve(root);
+  return sourceFile ? resolve(dirname(sourceFile)) : process.cwd();
+}
+
+/**
+ * Read skill content from a local file, with its resolved path and hash.
  *
  * @param filePath - Path to the skill file (relative or absolute)
  * @param options - Optional configuration
- * @returns The skill file content
+ * @returns SkillFileResult with the content, resolved path and hash
+ * @throws SkillFileError in strict mode if the file can't be read
  */
-export async function readSkillFile(
+export async function readSkillFileWithInfo(
   filePath: string,
   options: ReadSkillFileOptions = {}
-): Promise<string> {
-  const { baseDir = process.cwd(), verbose = true } = options;
+): Promise<SkillFileResult> {
+  const { baseDir = process.cwd(), verbose = true, strict = false } = options;
+  const resolvedPath = resolve(baseDir, filePath);
 
   try {
-    const resolvedPath = resolve(baseDir, filePath);
-
     if (verbose) {
       console.log(`[Skill] Reading skill file: ${resolvedPath}`);
     }
@@ -38,42 +105,82 @@ export async function readSkillFile(
       console.log(`[Skill] Loaded ${content.length} characters from skill file`);
     }
 
-    return content;
+    return { content, path: filePath, resolvedPath, sha256: sha256(content) };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
+    if (strict) {
+      throw new SkillFileError(`Skill file could not be read from ${resolvedPath}: ${errorMessage}`, resolvedPath, error);
+    }
+
     if (verbose) {
       console.warn(`[Skill] Error reading skill file:`, errorMessage);
     }
 
-    return `[Skill file could not be loaded from ${filePath}]`;
+    return {
+      content: `[Skill file could not be loaded from ${filePath}]`,
+      path: filePath,
+      resolvedPath,
+      sha256: null,
+    };
   }
 }
 
 /**
- * Read and concatenate multiple skill files
+ * Read skill content from a local file
+ *
+ * @param filePath - Path to the skill file (relative or absolute)
+ * @param options - Optional configuration
+ * @returns The skill file content
+ */
+export async function readSkillFile(
+  filePath: string,
+  options: ReadSkillFileOptions = {}
+): Promise<string> {
+  const result = await readSkillFileWithInfo(filePath, options);
+  return result.content;
+}
+
+/**
+ * Read and concatenate multiple skill files, with each file's resolved
+ * path and hash.
  *
  * @param filePaths - Single path or array of paths to skill files
  * @param options - Optional configuration
- * @returns Concatenated skill file content (separated by double newlines)
+ * @returns SkillFilesResult with the concatenated content and per-file details
+ * @throws SkillFileError in strict mode if any file can't be read
  */
-export async function readSkillFiles(
+export async function readSkillFilesWithInfo(
   filePaths: string | string[],
   options: ReadSkillFileOptions = {}
-): Promise<string> {
+): Promise<SkillFilesResult> {
   const { verbose = true } = options;
   const paths = Array.isArray(filePaths) ? filePaths : [filePaths];
 
-  const contents = await Promise.all(
-    paths.map(path => readSkillFile(path, { ...options, verbose: false }))
+  const files = await Promise.all(
+    paths.map(path => readSkillFileWithInfo(path, { ...options, verbose: false }))
   );
 
-  const combined = contents.join('\n\n');
+  const combined = files.map((file) => file.content).join('\n\n');
 
   if (verbose) {
     console.log(`[Skill] Loaded ${paths.length} skill file(s), total ${combined.length} characters`);
   }
 
-  return combined;
+  return { content: combined, sha256: sha256(combined), files };
 }
 
+/**
+ * Read and concatenate multiple skill files
+ *
+ * @param filePaths - Single path or array of paths to skill files
+ * @param options - Optional configuration
+ * @returns Concatenated skill file content (separated by double newlines)
+ */
+export async function readSkillFiles(
+  filePaths: string | string[],
+  options: ReadSkillFileOptions = {}
+): Promise<string> {
+  const result = await readSkillFilesWithInfo(filePaths, options);
+  return result.content;
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { generateRunId, openRunState } from "./run-state.js";
+
+describe("openRunState", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "run-state-"));
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const startedAt = "2026-01-15T10:00:00.000Z";
+
+  it("resumes with the saved rows, URLs and pending namespaces", async () => {
+    const state = openRunState<{ score: number }>("Project", startedAt, { id: "resume", dir });
+    await state.recordRow("Baseline", "case#0", { score: 1 });
+    await state.completeExperiment("Baseline", "https://example.com/experiment");
+    await state.addPendingNamespace({ sample_mflix: "sample_mflix_1" });
+    await state.addPendingNamespace({ sample_mflix: "sample_mflix_2" });
+    await state.removePendingNamespace({ sample_mflix: "sample_mflix_1" });
+
+    const resumed = openRunState<{ score: number }>("Project", "2026-01-15T11:00:00.000Z", {
+      id: "resume",
+      resume: true,
+      dir,
+    });
+    assert.equal(resumed.resumed, true);
+    assert.equal(resumed.startedAt, startedAt);
+    assert.deepEqual([...resumed.completedRows("Baseline")], [["case#0", { score: 1 }]]);
+    assert.equal(resumed.completedRows("With Skill").size, 0);
+    assert.equal(resumed.experimentUrl("Baseline"), "https://example.com/experiment");
+    assert.deepEqual(resumed.pendingNamespaces(), [{ sample_mflix: "sample_mflix_2" }]);
+  });
+
+  it("resumes with pending setups, keeping their ObjectIds", async () => {
+    const namespace = { database: "sample_mflix", collection: "movies" };
+    const setup = (id: ObjectId) => ({
+      createdCollections: [],
+      insertedDocuments: [{ ...namespace, ids: [id] }],
+      indexes: [],
+      searchIndexes: [],
+      maxWaitSeconds: 60,
+    });
+    const kept = setup(new ObjectId());
+    const reverted = setup(new ObjectId());
+    const state = openRunState("Project", startedAt, { id: "setups", dir });
+    await state.addPendingSetup(kept);
+    await state.addPendingSetup(reverted);
+    await state.removePendingSetup(reverted);
+
+    const [pending, ...rest] = openRunState("Project", startedAt, { id: "setups", resume: true, dir }).pendingSetups();
+    assert.deepEqual(rest, []);
+    assert.ok(pending?.insertedDocuments[0]?.ids[0] instanceof ObjectId);
+    assert.deepEqual(pending, kept);
+  });
+
+  it("keeps every row when rows are recorded concurrently", async () => {
+    const state = openRunState("Project", startedAt, { id: "concurrent", dir });
+    await Promise.all([0, 1, 2, 3].map((index) => state.recordRow("Baseline", `case#${index}`, index)));
+
+    const resumed = openRunState("Project", startedAt, { id: "concurrent", resume: true, dir });
+    assert.equal(resumed.completedRows("Baseline").size, 4);
+  });
+
+  it("refuses to reuse a run ID or resume a missing run", async () => {
+    // Nothing is saved until a row is recorded
+    await openRunState("Project", startedAt, { id: "taken", dir }).recordRow("Baseline", "case#0", {});
+    assert.throws(() => openRunState("Project", startedAt, { id: "taken", dir }), /already exists/);
+    assert.throws(() => openRunState("Project", startedAt, { id: "missing", resume: true, dir }), /Nothing to resume/);
+  });
+
+  it("refuses to resume another project's run", () => {
+    assert.throws(() => openRunState("Other", startedAt, { id: "resume", resume: true, dir }), /belongs to project/);
+  });
+
+  it("rejects run IDs that aren't safe file names", () => {
+    assert.throws(() => openRunState("Project", startedAt, { id: "../escape", dir }), /Invalid run ID/);
+  });
+});
+
+describe("generateRunId", () => {
+  it("makes a file-name-safe ID from the start time", () => {
+    assert.equal(generateRunId("2026-01-15T10:00:00.000Z"), "run-2026-01-15T10-00-00-000Z");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * On-disk progress state for evaluation runs.
+ *
+ * Every run has an ID and a state file recording which rows (eval case x
+ * sample, per experiment) have been scored, with their results. If a run
+ * dies halfway, resuming it with the same ID skips the scored rows and only
+ * runs the rest. Isolated databases and setups of rows that were still
+ * running are recorded too, so a resumed run can drop or revert them before
+ * continuing.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { BSON, type Document } from "mongodb";
+import type { DatabaseRedirects } from "./db-isolation.js";
+import type { AppliedSetup } from "./setup.js";
+
+export interface RunStateOptions {
+  /** Run ID (default: generated from the start time) */
+  id?: string;
+  /** Continue the run with this ID instead of starting a new one */
+  resume?: boolean;
+  /** Directory for state files (default: RUN_STATE_DIR env var, or ".cache/runs") */
+  dir?: string;
+}
+
+/** Progress of one experiment */
+interface ExperimentState<Row> {
+  /** Scored rows by row key */
+  rows: Record<string, Row>;
+  /** Set once every row of the experiment has been scored */
+  completedAt?: string;
+  experimentUrl?: string;
+}
+
+/**
+ * A run's state file as stored on disk.
+ */
+export interface RunStateFile<Row = unknown> {
+  runId: string;
+  projectName: string;
+  startedAt: string;
+  updatedAt: string;
+  experiments: Record<string, ExperimentState<Row>>;
+  /** Isolated databases of rows that were running when the state was saved */
+  pendingNamespaces: DatabaseRedirects[];
+  /** Setups of rows that were running when the state was saved, as Extended JSON (so ObjectIds survive) */
+  pendingSetups: Document[];
+}
+
+export interface RunState<Row = unknown> {
+  runId: string;
+  filePath: string;
+  /** Whether this run continues an earlier one */
+  resumed: boolean;
+  /** When the run was first started */
+  startedAt: string;
+  /** Scored rows of an experiment, by row key */
+  completedRows(experimentName: string): Map<string, Row>;
+  /** Experiment URL saved when the experiment completed, if any */
+  experimentUrl(experimentName: string): string | undefined;
+  /** Record a scored row and save the state */
+  recordRow(experimentName: string, rowKey: string, row: Row): Promise<void>;
+  /** Mark an experiment complete and save the state */
+  completeExperiment(experimentName: string, experimentUrl?: string): Promise<void>;
+  /** Isolated databases left behind by an interrupted run */
+  pendingNamespaces(): DatabaseRedirects[];
+  addPendingNamespace(redirects: DatabaseRedirects): Promise<void>;
+  removePendingNamespace(redirects: DatabaseRedirects): Promise<void>;
+  /** Setups applied by an interrupted run that were never reverted */
+  pendingSetups(): AppliedSetup[];
+  addPendingSetup(applied: AppliedSetup): Promise<void>;
+  removePendingSetup(applied: AppliedSetup): Promise<void>;
+}
+
+/**
+ * Generate a run ID from a start time (ISO string), safe to use as a file name.
+ */
+export function generateRunId(startedAt: string): string {
+  return `run-${startedAt.replace(/[:.]/g, "-")}`;
+}
+
+/**
+ * Open the state of a new run, or of an earlier run to resume.
+ *
+ * @throws Error when resuming a run with no state file (or from another
+ *   project), or when starting a new run whose ID is already taken
+ */
+export function openRunState<Row = unknown>(
+  projectName: string,
+  startedAt: string,
+  options: RunStateOptions = {}
+): RunState<Row> {
+  const dir = options.dir ?? process.env.RUN_STATE_DIR ?? ".cache/runs";
+  const runId = options.id ?? generateRunId(startedAt);
+  if (!/^[\w.-]+$/.test(runId)) {
+    throw new Error(`Invalid run ID "${runId}". Use letters, digits, ".", "_" and "-".`);
+  }
+  const filePath = join(dir, `${runId}.json`);
+
+  let state: RunStateFile<Row>;
+  if (options.resume) {
+    if (!existsSync(filePath)) {
+      throw new Error(`[Run] No state for run "${runId}" in ${dir}. Nothing to resume.`);
+    }
+    state = JSON.parse(readFileSync(filePath, "utf-8")) as RunStateFile<Row>;
+    // State files saved before setups were tracked
+    state.pendingSetups ??= [];
+    if (state.projectName !== projectName) {
+      throw new Error(
+        `[Run] Run "${runId}" belongs to project "${state.projectName}", not "${projectName}".`
+      );
+    }
+  } else {
+    if (existsSync(filePath)) {
+      throw new Error(`[Run] Run "${runId}" already exists in ${dir}. Resume it or choose another ID.`);
+    }
+    state = { runId, projectName, startedAt, updatedAt: startedAt, experiments: {}, pendingNamespaces: [], pendingSetups: [] };
+  }
+
+  // Saves are chained so concurrent rows never interleave writes (a failed
+  // save is reported to its caller and doesn't block later ones)
+  let saving: Promise<void> = Promise.resolve();
+  const save = (): Promise<void> => {
+    saving = saving.catch(() => undefined).then(async () => {
+      state.updatedAt = new Date().toISOString();
+      await mkdir(dir, { recursive: true });
+      // Write then rename, so a crash mid-write leaves the previous state intact
+      await writeFile(`${filePath}.tmp`, JSON.stringify(state, null, 2), "utf-8");
+      await rename(`${filePath}.tmp`, filePath);
+    });
+    return saving;
+  };
+
+  const experiment = (name: string): ExperimentState<Row> => (state.experiments[name] ??= { rows: {} });
+  const sameNamespace = (a: DatabaseRedirects, b: DatabaseRedirects) => JSON.stringify(a) === JSON.stringify(b);
+  const serializeSetup = (applied: AppliedSetup): Document => BSON.EJSON.serialize(applied);
+
+  return {
+    runId,
+    filePath,
+    resumed: options.resume ?? false,
+    startedAt: state.startedAt,
+    completedRows: (name) => new Map(Object.entries(state.experiments[name]?.rows ?? {})),
+    experimentUrl: (name) => state.experiments[name]?.experimentUrl,
+    recordRow(name, rowKey, row) {
+      experiment(name).rows[rowKey] = row;
+      return save();
+    },
+    completeExperiment(name, experimentUrl) {
+      const current = experiment(name);
+      current.completedAt = new Date().toISOString();
+      current.experimentUrl = experimentUrl ?? current.experimentUrl;
+      return save();
+    },
+    pendingNamespaces: () => [...state.pendingNamespaces],
+    addPendingNamespace(redirects) {
+      state.pendingNamespaces.push(redirects);
+      return save();
+    },
+    removePendingNamespace(redirects) {
+      state.pendingNamespaces = state.pendingNamespaces.filter((pending) => !sameNamespace(pending, redirects));
+      return save();
+    },
+    pendingSetups: () => state.pendingSetups.map((pending) => BSON.EJSON.deserialize(pending) as AppliedSetup),
+    addPendingSetup(applied) {
+      state.pendingSetups.push(serializeSetup(applied));
+      return save();
+    },
+    removePendingSetup(applied) {
+      const serialized = JSON.stringify(serializeSetup(applied));
+      state.pendingSetups = state.pendingSetups.filter((pending) => JSON.stringify(pending) !== serialized);
+      return save();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { passAtK, summarizeSamples } from "./sampleStats.js";
+
+describe("passAtK", () => {
+  it("is the pass rate for k=1", () => {
+    assert.equal(passAtK(4, 1, 1), 0.25);
+    assert.equal(passAtK(1, 1, 1), 1);
+    assert.equal(passAtK(1, 0, 1), 0);
+  });
+
+  it("matches 1 - C(n-c, k) / C(n, k)", () => {
+    // C(3, 2) / C(5, 2) = 3 / 10
+    assert.ok(Math.abs(passAtK(5, 2, 2) - 0.7) < 1e-12);
+  });
+
+  it("clamps k to n when there are fewer samples than k", () => {
+    assert.equal(passAtK(2, 1, 5), 1);
+    assert.equal(passAtK(2, 0, 5), 0);
+    assert.equal(passAtK(3, 1, 10), passAtK(3, 1, 3));
+  });
+
+  it("is 0 without samples", () => {
+    assert.equal(passAtK(0, 0, 1), 0);
+  });
+});
+
+describe("summarizeSamples", () => {
+  it("gives the same pass@1 and pass@k for k=1", () => {
+    const stats = summarizeSamples(
+      [
+        { caseName: "a", score: 1 },
+        { caseName: "b", score: 0.5 },
+      ],
+      1
+    );
+    assert.equal(stats.k, 1);
+    assert.equal(stats.passAt1, 0.5);
+    assert.equal(stats.passAtK, 0.5);
+    assert.equal(stats.samples, 2);
+    assert.equal(stats.meanScore, 0.75);
+  });
+
+  it("handles cases with different sample counts", () => {
+    // "a" overrides sampleCount to 1, "b" uses k = 4
+    const stats = summarizeSamples(
+      [
+        { caseName: "a", score: 0 },
+        { caseName: "b", score: 1 },
+        { caseName: "b", score: 0 },
+        { caseName: "b", score: 0 },
+        { caseName: "b", score: 0 },
+      ],
+      4
+    );
+    const [a, b] = stats.cases;
+    assert.deepEqual([a?.caseName, a?.samples, a?.passAtK], ["a", 1, 0]);
+    assert.deepEqual([b?.caseName, b?.samples, b?.passAt1, b?.passAtK], ["b", 4, 0.25, 1]);
+    assert.equal(stats.passAt1, 0.125);
+    assert.equal(stats.passAtK, 0.5);
+    assert.equal(stats.samples, 5);
+  });
+
+  it("counts null scores as failures", () => {
+    const stats = summarizeSamples(
+      [
+        { caseName: "a", score: null },
+        { caseName: "a", score: 1 },
+      ],
+      2
+    );
+    assert.equal(stats.cases[0]?.passes, 1);
+    assert.equal(stats.meanScore, 0.5);
+  });
+
+  it("uses the pass threshold", () => {
+    const stats = summarizeSamples([{ caseName: "a", score: 0.8 }], 1, 0.75);
+    assert.equal(stats.passAt1, 1);
+  });
+});
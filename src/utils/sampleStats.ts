@@ -0,0 +1,130 @@
+/**
+ * Sample statistics utilities.
+ *
+ * Summarizes repeated samples of the same eval case into pass@k,
+ * mean and standard deviation of the compound score.
+ */
+
+/**
+ * A single scored sample for an eval case.
+ */
+export interface SampleScore {
+  /** Name of the eval case the sample belongs to */
+  caseName: string;
+  /** CompoundCodeGenScore for the sample (null if the sample produced no score) */
+  score: number | null;
+}
+
+/**
+ * Statistics for all samples of a single eval case.
+ */
+export interface CaseSampleStats {
+  caseName: string;
+  /** Number of samples generated */
+  samples: number;
+  /** Number of samples whose score met the pass threshold */
+  passes: number;
+  passAt1: number;
+  passAtK: number;
+  meanScore: number;
+  stdDevScore: number;
+}
+
+/**
+ * Statistics across all eval cases for one approach.
+ *
+ * pass@1 and pass@k are averaged per case; mean and standard deviation
+ * are computed over every sample.
+ */
+export interface SampleStats {
+  /** The k used for pass@k */
+  k: number;
+  /** Total number of samples */
+  samples: number;
+  passAt1: number;
+  passAtK: number;
+  meanScore: number;
+  stdDevScore: number;
+  cases: CaseSampleStats[];
+}
+
+/**
+ * Unbiased pass@k estimator (Chen et al., 2021).
+ *
+ * Probability that at least one of k samples drawn without replacement
+ * from n samples (c of which pass) passes. k is clamped to n.
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n === 0) return 0;
+  const kk = Math.min(k, n);
+  if (n - c < kk) return 1;
+
+  // 1 - C(n-c, k) / C(n, k), computed as a product to avoid large numbers
+  let failProbability = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    failProbability *= 1 - kk / i;
+  }
+  return 1 - failProbability;
+}
+
+/**
+ * Arithmetic mean (0 for an empty list).
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation (0 for fewer than two values).
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Summarize samples per case and across all cases.
+ *
+ * Samples with a null score count as failures with a score of 0.
+ *
+ * @param samples - Scored samples (any order)
+ * @param k - The k used for pass@k
+ * @param passThreshold - Minimum score for a sample to pass (default: 1)
+ */
+export function summarizeSamples(samples: SampleScore[], k: number, passThreshold: number = 1): SampleStats {
+  // Group scores by case, preserving first-seen order
+  const byCase = new Map<string, number[]>();
+  for (const sample of samples) {
+    const scores = byCase.get(sample.caseName) ?? [];
+    scores.push(sample.score ?? 0);
+    byCase.set(sample.caseName, scores);
+  }
+
+  const cases: CaseSampleStats[] = [...byCase.entries()].map(([caseName, scores]) => {
+    const passes = scores.filter((score) => score >= passThreshold).length;
+    return {
+      caseName,
+      samples: scores.length,
+      passes,
+      passAt1: passAtK(scores.length, passes, 1),
+      passAtK: passAtK(scores.length, passes, k),
+      meanScore: mean(scores),
+      stdDevScore: standardDeviation(scores),
+    };
+  });
+
+  const allScores = [...byCase.values()].flat();
+
+  return {
+    k,
+    samples: allScores.length,
+    passAt1: mean(cases.map((c) => c.passAt1)),
+    passAtK: mean(cases.map((c) => c.passAtK)),
+    meanScore: mean(allScores),
+    stdDevScore: standardDeviation(allScores),
+    cases,
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Setup utilities for eval cases.
+ *
+ * Runs the setup actions defined in eval case YAML files before a row is
+ * generated and executed: creating collections, inserting documents,
+ * creating regular indexes and pre-creating search indexes. Everything a
+ * setup creates is recorded so it can be reverted once the row is scored.
+ */
+
+import { readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { BSON, MongoClient, type Document, type IndexSpecification } from "mongodb";
+import { parse as parseYaml } from "yaml";
+import type { EvalCaseSetup } from "../schemas/evalCase.js";
+import { dropSearchIndex } from "./cleanup.js";
+
+/** A collection, by database and name */
+interface Namespace {
+  database: string;
+  collection: string;
+}
+
+/**
+ * What a setup created, in the order it was created.
+ */
+export interface AppliedSetup {
+  /** Collections that didn't exist before (dropped on revert, with their documents and indexes) */
+  createdCollections: Namespace[];
+  /** Documents inserted into collections that already existed */
+  insertedDocuments: Array<Namespace & { ids: unknown[] }>;
+  /** Regular indexes created on collections that already existed */
+  indexes: Array<Namespace & { name: string }>;
+  /** Search indexes created on collections that already existed */
+  searchIndexes: Array<Namespace & { name: string }>;
+  /** Maximum time to wait for search index drops */
+  maxWaitSeconds: number;
+}
+
+/**
+ * A setup action that failed. Whatever the setup had created is reverted
+ * before this is thrown.
+ */
+export class SetupError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "SetupError";
+  }
+}
+
+/** Search index name used when a setup doesn't give one */
+const DEFAULT_SEARCH_INDEX_NAME = "default";
+
+/**
+ * Read the documents to insert from a JSON or YAML file. Extended JSON
+ * values such as { $oid: ... } and { $date: ... } are converted.
+ *
+ * @param filePath - Path to the file, relative to baseDir
+ * @throws SetupError if the file can't be read or doesn't hold an array of documents
+ */
+export function loadSetupDocuments(filePath: string, baseDir: string = process.cwd()): Document[] {
+  const resolvedPath = resolve(baseDir, filePath);
+  let parsed: unknown;
+  try {
+    const content = readFileSync(resolvedPath, "utf-8");
+    parsed = extname(resolvedPath) === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SetupError(`Could not read setup documents from ${resolvedPath}: ${message}`, error);
+  }
+
+  if (!Array.isArray(parsed) || !parsed.every((item) => typeof item === "object" && item !== null && !Array.isArray(item))) {
+    throw new SetupError(`Setup documents file ${resolvedPath} must contain an array of documents`);
+  }
+  return parsed.map((document) => BSON.EJSON.deserialize(document as Document));
+}
+
+/**
+ * Run setup actions for an eval case.
+ *
+ * Actions run in order: create collections, insert documents, create
+ * indexes, create search indexes (waiting until each is queryable).
+ * Collections and indexes that already exist are left as they are.
+ *
+ * @param setup - Setup configuration from the eval case
+ * @param baseDir - Directory document files are resolved against (default: process.cwd())
+ * @returns What was created, to pass to revertSetup() (undefined if nothing ran)
+ * @throws SetupError if an action fails (after reverting what was created)
+ */
+export async function runSetup(
+  setup: EvalCaseSetup | undefined,
+  baseDir: string = process.cwd()
+): Promise<AppliedSetup | undefined> {
+  if (!setup) return undefined;
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.warn("[Setup] Cannot run setup: MONGODB_URI not set");
+    return undefined;
+  }
+
+  // Read document files before touching the database
+  const inserts = (setup.insertDocuments ?? []).map((insert) => ({
+    ...insert,
+    documents: insert.file
+      ? loadSetupDocuments(insert.file, baseDir)
+      : (insert.documents ?? []).map((document) => BSON.EJSON.deserialize(document)),
+  }));
+
+  const applied: AppliedSetup = {
+    createdCollections: [],
+    insertedDocuments: [],
+    indexes: [],
+    searchIndexes: [],
+    maxWaitSeconds: setup.maxWaitSeconds ?? 60,
+  };
+  const client = new MongoClient(uri);
+
+  try {
+    await client.connect();
+
+    const collectionExists = async ({ database, collection }: Namespace) =>
+      (await client.db(database).listCollections({ name: collection }, { nameOnly: true }).toArray()).length > 0;
+    const createdBySetup = ({ database, collection }: Namespace) =>
+      applied.createdCollections.some((created) => created.database === database && created.collection === collection);
+
+    for (const namespace of setup.createCollections ?? []) {
+      if (await collectionExists(namespace)) continue;
+      await client.db(namespace.database).createCollection(namespace.collection);
+      applied.createdCollections.push({ database: namespace.database, collection: namespace.collection });
+    }
+
+    for (const { database, collection, documents } of inserts) {
+      const isNew = !createdBySetup({ database, collection }) && !(await collectionExists({ database, collection }));
+      if (isNew) applied.createdCollections.push({ database, collection });
+      if (documents.length === 0) continue;
+
+      const result = await client.db(database).collection(collection).insertMany(documents);
+      if (!isNew && !createdBySetup({ database, collection })) {
+        applied.insertedDocuments.push({ database, collection, ids: Object.values(result.insertedIds) });
+      }
+    }
+
+    for (const { database, collection, keys, name, options } of setup.createIndexes ?? []) {
+      const coll = client.db(database).collection(collection);
+      // createIndex creates a missing collection, which is then dropped (with the index) on revert
+      if (!createdBySetup({ database, collection }) && !(await collectionExists({ database, collection }))) {
+        applied.createdCollections.push({ database, collection });
+      }
+      const existing = createdBySetup({ database, collection })
+        ? new Set<string>()
+        : new Set((await coll.listIndexes().toArray()).map((index) => index.name as string));
+      const created = await coll.createIndex(keys as IndexSpecification, { ...options, ...(name ? { name } : {}) });
+      if (!existing.has(created) && !createdBySetup({ database, collection })) {
+        applied.indexes.push({ database, collection, name: created });
+      }
+    }
+
+    for (const { database, collection, name = DEFAULT_SEARCH_INDEX_NAME, type, definition } of setup.createSearchIndexes ?? []) {
+      const coll = client.db(database).collection(collection);
+      const existing = await coll.listSearchIndexes(name).toArray();
+      if (existing.length > 0) continue;
+
+      await coll.createSearchIndex({ name, type, definition });
+      if (!createdBySetup({ database, collection })) {
+        applied.searchIndexes.push({ database, collection, name });
+      }
+      await waitForSearchIndex(client, { database, collection }, name, applied.maxWaitSeconds);
+    }
+  } catch (error) {
+    await client.close();
+    await revertSetup(applied);
+    if (error instanceof SetupError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SetupError(`Setup failed: ${message}`, error);
+  }
+
+  await client.close();
+  return applied;
+}
+
+/**
+ * Poll until a search index can be queried.
+ *
+ * @throws SetupError if it isn't queryable within maxWaitSeconds
+ */
+async function waitForSearchIndex(
+  client: MongoClient,
+  { database, collection }: Namespace,
+  name: string,
+  maxWaitSeconds: number
+): Promise<void> {
+  const coll = client.db(database).collection(collection);
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < maxWaitSeconds * 1000) {
+    const [index] = await coll.listSearchIndexes(name).toArray();
+    if ((index as { queryable?: boolean } | undefined)?.queryable) return;
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+
+  throw new SetupError(`Search index "${name}" on ${database}.${collection} was not queryable after ${maxWaitSeconds}s`);
+}
+
+/**
+ * Revert what a setup created: drop the collections it created, and remove
+ * the documents and indexes it added to existing collections.
+ *
+ * Errors are logged rather than thrown, like cleanup errors, and don't stop
+ * the remaining steps.
+ */
+export async function revertSetup(applied: AppliedSetup | undefined): Promise<void> {
+  if (!applied) return;
+
+  for (const { database, collection, name } of applied.searchIndexes) {
+    await dropSearchIndex(database, collection, name, applied.maxWaitSeconds);
+  }
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.warn("[Setup] Cannot revert setup: MONGODB_URI not set");
+    return;
+  }
+
+  let client: MongoClient | null = null;
+  const attempt = async (description: string, action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Setup] Error reverting setup (${description}): ${message}`);
+    }
+  };
+
+  try {
+    client = new MongoClient(uri);
+    await client.connect();
+    const db = (database: string) => client!.db(database);
+
+    for (const { database, collection, name } of applied.indexes) {
+      await attempt(`drop index ${name}`, () => db(database).collection(collection).dropIndex(name));
+    }
+    for (const { database, collection, ids } of applied.insertedDocuments) {
+      await attempt(`delete documents from ${database}.${collection}`, () =>
+        db(database).collection(collection).deleteMany({ _id: { $in: ids } } as Document)
+      );
+    }
+    for (const { database, collection } of applied.createdCollections) {
+      await attempt(`drop ${database}.${collection}`, () => db(database).collection(collection).drop());
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Setup] Error reverting setup: ${message}`);
+  } finally {
+    if (client) {
+      await client.close();
+    }
+  }
+}
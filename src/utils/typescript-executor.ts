@@ -0,0 +1,61 @@
+/**
+ * Utility for executing generated TypeScript code.
+ *
+ * TypeScript is transpiled to CommonJS JavaScript (types are stripped, not
+ * checked) and then run in the same VM sandbox as JavaScript code. Type
+ * errors are reported separately by the Syntax_TypeChecks scorer.
+ */
+
+import ts from "typescript";
+import {
+  COMMONJS_TRANSPILE_OPTIONS,
+  executeMongoDBCode,
+  type ExecutionOptions,
+  type ExecutionResult,
+} from "./code-executor.js";
+
+/**
+ * Transpile TypeScript to CommonJS JavaScript.
+ *
+ * @returns The JavaScript code, or the syntax errors that prevented transpiling
+ */
+export function transpileTypeScript(code: string): { code: string; errors: string[] } {
+  const result = ts.transpileModule(code, {
+    compilerOptions: COMMONJS_TRANSPILE_OPTIONS,
+    fileName: "generated-code.ts",
+    reportDiagnostics: true,
+  });
+
+  const errors = (result.diagnostics ?? []).map((diagnostic) =>
+    ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+  );
+  return { code: result.outputText, errors };
+}
+
+/**
+ * Transpile generated TypeScript code and execute it in the VM sandbox.
+ *
+ * @param code - The generated TypeScript code to execute
+ * @param connectionString - MongoDB connection string (optional, uses env var if not provided)
+ * @param timeout - Execution timeout in milliseconds (default: 30000)
+ * @param options - Database redirects, allowed modules and environment variables
+ * @returns ExecutionResult with success status and output or error
+ */
+export async function executeTypeScriptCode(
+  code: string,
+  connectionString?: string,
+  timeout: number = 30000,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const transpiled = transpileTypeScript(code);
+  if (transpiled.errors.length > 0) {
+    return {
+      success: false,
+      error: `TypeScript transpile failed: ${transpiled.errors.join("; ")}`,
+    };
+  }
+
+  // CommonJS output writes to exports when the code has imports or exports
+  const javascript = `const exports = {};\nconst module = { exports };\n${transpiled.code}`;
+  return executeMongoDBCode(javascript, connectionString, timeout, options);
+}